@@ -1,11 +1,48 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { getCurrentProjectId, setCurrentProjectId } from "@/lib/project";
+import { useProjects } from "@/hooks/use-project";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 
 export default function Header() {
+  const { projects } = useProjects();
+  const [selectedProjectId, setSelectedProjectId] = useState(getCurrentProjectId());
+
+  // Switch project and refetch everything scoped to it
+  const handleProjectChange = (value: string) => {
+    const projectId = parseInt(value);
+    setCurrentProjectId(projectId);
+    setSelectedProjectId(projectId);
+    queryClient.invalidateQueries();
+  };
+
   return (
     <header className="bg-white shadow">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
         <div className="flex justify-between items-center">
-          <h1 className="text-xl font-bold text-gray-800">Ticket Assignment System</h1>
+          <div className="flex items-center space-x-4">
+            <h1 className="text-xl font-bold text-gray-800">Ticket Assignment System</h1>
+            {projects.length > 0 && (
+              <Select value={String(selectedProjectId)} onValueChange={handleProjectChange}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={String(project.id)}>
+                      {project.key} - {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
           <div className="flex items-center space-x-4">
             <span className="text-sm text-gray-600">Welcome, Admin</span>
             <button className="text-sm text-primary hover:text-primary-dark">Logout</button>
@@ -1,4 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { defaultSkillLevel, maxSkillLevel } from "@shared/schema";
 
 export default function TeamMembersList() {
   // Fetch team members
@@ -38,11 +40,18 @@ export default function TeamMembersList() {
       <div className="space-y-4">
         {teamMembers.map((member: any) => (
           <div key={member.id} className="flex items-start p-3 border border-gray-200 rounded-md hover:bg-gray-50">
-            <div className="flex-shrink-0 h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 font-medium">
+            <div className={`flex-shrink-0 h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 font-medium ${member.awayUntil ? "opacity-50" : ""}`}>
               {member.initials}
             </div>
             <div className="ml-3">
-              <h3 className="text-sm font-medium text-gray-800">{member.name}</h3>
+              <h3 className="text-sm font-medium text-gray-800">
+                {member.name}
+                {member.awayUntil && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                    Away until {format(parseISO(member.awayUntil), "MMM d")}
+                  </span>
+                )}
+              </h3>
               <div className="mt-1 flex flex-wrap gap-1">
                 {member.skills.map((skill: string, index: number) => {
                   // Different background colors for different skills
@@ -54,19 +63,33 @@ export default function TeamMembersList() {
                   };
                   
                   const colorClass = colors[skill as keyof typeof colors] || "bg-gray-100 text-gray-800";
+                  const level = member.skillLevels?.[skill] ?? defaultSkillLevel;
                   
                   return (
                     <span 
                       key={index} 
                       className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${colorClass}`}
+                      title={`Proficiency ${level} of ${maxSkillLevel}`}
                     >
                       {skill}
+                      <span className="ml-1 opacity-70">{level}/{maxSkillLevel}</span>
                     </span>
                   );
                 })}
               </div>
               <p className="mt-1 text-xs text-gray-500">
-                Assigned Tickets: <span className="font-medium">{member.assignedTicketCount}</span>
+                Assigned Tickets: <span className="font-medium">
+                  {member.assignedTicketCount}
+                  {member.maxOpenTickets !== null && ` / ${member.maxOpenTickets}`}
+                </span>
+                <span className="ml-2" title="Open tickets weighted by priority and deadline">
+                  Load: <span className="font-medium">{Number(member.workload ?? 0).toFixed(1)}</span>
+                </span>
+                {member.maxOpenTickets !== null && member.assignedTicketCount >= member.maxOpenTickets && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    At capacity
+                  </span>
+                )}
               </p>
             </div>
           </div>
@@ -1,9 +1,64 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePriorities, getPriorityLevel } from "@/hooks/use-priorities";
+import { useProjects, formatTicketKey } from "@/hooks/use-project";
+import { canTransition, getWorkflowState, isOpenStatus } from "@shared/workflow";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
+import { uploadAttachment, getAttachmentUrl } from "@/lib/api";
+import type { SlaStatus } from "@shared/sla";
+import type {
+  ActivityLog,
+  Attachment,
+  Comment,
+  CustomFieldDefinition,
+  TeamMember,
+  Ticket,
+  TicketWatcher,
+} from "@shared/schema";
+
+// Ticket with everything GET /api/tickets/:id adds to it
+interface TicketDetails extends Ticket {
+  assignedMember: TeamMember | null;
+  activityLogs: ActivityLog[];
+  // Milliseconds spent in each status
+  timeInStatus: Record<string, number>;
+  subtasks: Ticket[];
+  progress: { total: number; completed: number; percent: number };
+  sla: SlaStatus | null;
+}
+
+interface AssignmentCandidate {
+  member: TeamMember;
+  rank: number | null;
+  matchingSkills: string[];
+  openTickets: number;
+  workload: number;
+  score: number | null;
+  preferred: boolean;
+  excludedReason: string | null;
+}
+
+interface DependencyLink {
+  id: number;
+  ticket?: Ticket;
+}
+
+interface TicketDependencies {
+  blockedBy: DependencyLink[];
+  blocks: DependencyLink[];
+  openBlockers: number;
+}
+
+// Activity log details the timeline mentions
+interface LogDetails {
+  memberName?: string;
+  completedBy?: string;
+  authorId?: number;
+}
 
 interface TicketDetailsModalProps {
   ticketId: number;
@@ -12,16 +67,101 @@ interface TicketDetailsModalProps {
 
 export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsModalProps) {
   const { toast } = useToast();
+  const workflow = useWorkflow();
+  const { currentProject } = useProjects();
+  const priorities = usePriorities();
+  const [blockReason, setBlockReason] = useState<string | null>(null);
+  const [dependencyType, setDependencyType] = useState<"blocked_by" | "blocks">("blocked_by");
+  const [dependencyTicketId, setDependencyTicketId] = useState("");
+  const [subtaskTitle, setSubtaskTitle] = useState("");
+  const [subtaskSkill, setSubtaskSkill] = useState("");
+  const [commentBody, setCommentBody] = useState("");
+  const [commentAuthorId, setCommentAuthorId] = useState("");
+  const [watcherId, setWatcherId] = useState("");
+  const [editingComment, setEditingComment] = useState<{ id: number; body: string } | null>(null);
   
   // Fetch ticket details
-  const { data: ticket, isLoading } = useQuery({
+  const { data: ticket, isLoading } = useQuery<TicketDetails>({
     queryKey: [`/api/tickets/${ticketId}`],
   });
 
+  // Fetch how auto-assignment ranks the team for this ticket
+  const { data: assignment } = useQuery<{ strategy: string; candidates: AssignmentCandidate[] }>({
+    queryKey: [`/api/tickets/${ticketId}/assignment-candidates`],
+    enabled: !!ticket && isOpenStatus(workflow, ticket.status),
+  });
+
+  // Fetch tickets blocking this one and tickets it blocks
+  const { data: dependencies } = useQuery<TicketDependencies>({
+    queryKey: [`/api/tickets/${ticketId}/dependencies`],
+  });
+
+  // Other tickets that can be linked as dependencies
+  const { data: allTickets = [] } = useQuery<Ticket[]>({
+    queryKey: ['/api/tickets'],
+  });
+
+  // Fetch the ticket's comments, shown in the timeline with its activity
+  const { data: comments = [] } = useQuery<Comment[]>({
+    queryKey: [`/api/tickets/${ticketId}/comments`],
+  });
+
+  // Fetch team members following the ticket
+  const { data: watchers = [] } = useQuery<TicketWatcher[]>({
+    queryKey: [`/api/tickets/${ticketId}/watchers`],
+  });
+
+  // Fetch files attached to the ticket
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: [`/api/tickets/${ticketId}/attachments`],
+  });
+
+  // Custom field definitions, for labelling the ticket's values
+  const { data: customFields = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ['/api/custom-fields'],
+  });
+
+  // Team members, for comment authors and watchers
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team-members'],
+  });
+
+  // Skills a subtask can require
+  const { data: skills = [] } = useQuery<string[]>({
+    queryKey: ['/api/skills'],
+  });
+
+  // Assign ticket mutation, auto-assigns when no member is given
+  const assignTicket = useMutation({
+    mutationFn: async (memberId?: number) => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/assign`, { memberId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/assignment-candidates`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-members'] });
+      // Assignees are added as watchers
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/watchers`] });
+      toast({
+        title: "Ticket Assigned",
+        description: "The ticket assignment has been updated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Assignment Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Complete ticket mutation
   const completeTicket = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', `/api/tickets/${ticketId}/complete`, {});
+    mutationFn: async (force?: boolean) => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/complete`, { force });
       return response.json();
     },
     onSuccess: () => {
@@ -64,6 +204,274 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
     },
   });
 
+  // Move the ticket to another workflow status
+  const changeStatus = useMutation({
+    mutationFn: async ({ status, reason }: { status: string; reason?: string }) => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/transition`, { status, reason });
+      return response.json();
+    },
+    onSuccess: (updatedTicket) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+      setBlockReason(null);
+      toast({
+        title: "Status Changed",
+        description: `The ticket is now ${getWorkflowState(workflow, updatedTicket.status)?.label ?? updatedTicket.status}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Change Status",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Add or remove a dependency link
+  const addDependency = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/dependencies`, {
+        type: dependencyType,
+        ticketId: parseInt(dependencyTicketId),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/dependencies`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+      setDependencyTicketId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Add Dependency",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeDependency = useMutation({
+    mutationFn: async (dependencyId: number) => {
+      await apiRequest('DELETE', `/api/tickets/${ticketId}/dependencies/${dependencyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/dependencies`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Remove Dependency",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Add a subtask that is auto-assigned by its skill
+  const addSubtask = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/subtasks`, {
+        subtasks: [{ title: subtaskTitle, skills: subtaskSkill ? [subtaskSkill] : [] }],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/team-members'] });
+      setSubtaskTitle("");
+      setSubtaskSkill("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Add Subtask",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Toggle completing the ticket once all subtasks are done
+  const toggleCompleteWithSubtasks = useMutation({
+    mutationFn: async (completeWithSubtasks: boolean) => {
+      const response = await apiRequest('PATCH', `/api/tickets/${ticketId}`, { completeWithSubtasks });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Update Ticket",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Comment mutations refresh both the comments and the activity log
+  const invalidateComments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/comments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+  };
+
+  const addComment = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/comments`, {
+        authorId: parseInt(commentAuthorId),
+        body: commentBody,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateComments();
+      setCommentBody("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Add Comment",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateComment = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/${ticketId}/comments/${id}`, { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateComments();
+      setEditingComment(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Edit Comment",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteComment = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tickets/${ticketId}/comments/${id}`);
+    },
+    onSuccess: invalidateComments,
+    onError: (error) => {
+      toast({
+        title: "Failed to Delete Comment",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Subscribe or unsubscribe a team member
+  const addWatcher = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/${ticketId}/watchers`, {
+        memberId: parseInt(watcherId),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/watchers`] });
+      setWatcherId("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Add Watcher",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeWatcher = useMutation({
+    mutationFn: async (memberId: number) => {
+      await apiRequest('DELETE', `/api/tickets/${ticketId}/watchers/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/watchers`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Remove Watcher",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Attachment mutations refresh both the attachments and the activity log
+  const invalidateAttachments = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}/attachments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+  };
+
+  const addAttachment = useMutation({
+    mutationFn: (file: File) => uploadAttachment(ticketId, file),
+    onSuccess: invalidateAttachments,
+    onError: (error) => {
+      toast({
+        title: "Upload Failed",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteAttachment = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/tickets/${ticketId}/attachments/${id}`);
+    },
+    onSuccess: invalidateAttachments,
+    onError: (error) => {
+      toast({
+        title: "Failed to Delete Attachment",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Completing with open blockers needs confirmation and is forced
+  const handleComplete = () => {
+    const openBlockers = dependencies?.openBlockers ?? 0;
+    if (openBlockers > 0 && !window.confirm(`This ticket is blocked by ${openBlockers} open ticket(s). Complete it anyway?`)) {
+      return;
+    }
+    completeTicket.mutate(openBlockers > 0);
+  };
+
+  // Toggle the assignment lock
+  const toggleLock = useMutation({
+    mutationFn: async (assignmentLocked: boolean) => {
+      const response = await apiRequest('PATCH', `/api/tickets/${ticketId}`, { assignmentLocked });
+      return response.json();
+    },
+    onSuccess: (updatedTicket) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/${ticketId}`] });
+      toast({
+        title: updatedTicket.assignmentLocked ? "Assignment Locked" : "Assignment Unlocked",
+        description: updatedTicket.assignmentLocked
+          ? "Rebalancing will no longer move this ticket"
+          : "This ticket can be reassigned again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to Update Lock",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle escape key to close modal
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -86,6 +494,12 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
         return "bg-amber-100 text-amber-800";
       case "assigned":
         return "bg-violet-100 text-violet-800";
+      case "in_progress":
+        return "bg-blue-100 text-blue-800";
+      case "blocked":
+        return "bg-red-100 text-red-800";
+      case "on_hold":
+        return "bg-gray-200 text-gray-700";
       case "completed":
         return "bg-emerald-100 text-emerald-800";
       default:
@@ -93,20 +507,6 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
     }
   };
 
-  // Helper function to determine priority color class
-  const getPriorityClasses = (priority: string) => {
-    switch(priority) {
-      case "high":
-        return "bg-red-100 text-red-800";
-      case "medium":
-        return "bg-amber-100 text-amber-800";
-      case "low":
-        return "bg-blue-100 text-blue-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
-
   // Show loading state
   if (isLoading || !ticket) {
     return (
@@ -139,17 +539,40 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
   }
 
   // Format date for display
-  const formatDate = (dateString: string) => {
-    if (!dateString) return "N/A";
+  const formatDate = (value: Date | string) => {
+    if (!value) return "N/A";
     
     try {
-      const date = new Date(dateString);
+      const date = new Date(value);
       return format(date, "MMM d, yyyy 'at' h:mm a");
     } catch (error) {
-      return dateString;
+      return String(value);
     }
   };
 
+  const getMemberName = (memberId: number) =>
+    teamMembers.find((member) => member.id === memberId)?.name ?? "Unknown";
+
+  // Comments and activity log entries, newest first. Comment creation is
+  // already shown by the comment itself, so its log entry is skipped.
+  const timeline = [
+    ...comments.map((comment) => ({ kind: "comment" as const, item: comment, time: comment.createdAt })),
+    ...(ticket.activityLogs || [])
+      .filter((log) => log.action !== "commented")
+      .map((log) => ({ kind: "log" as const, item: { ...log, details: log.details as LogDetails | null }, time: log.timestamp })),
+  ].sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+
+  // Format a duration in milliseconds as days, hours and minutes
+  const formatDuration = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes % 60}m`;
+    return `${minutes}m`;
+  };
+
   return (
     <div className="fixed inset-0 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
       <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
@@ -165,17 +588,26 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
             <div className="sm:flex sm:items-start">
               <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
                 <h3 className="text-lg leading-6 font-medium text-gray-900" id="modal-title">
+                  <span className="mr-2 font-mono text-gray-500">{formatTicketKey(currentProject, ticket)}</span>
                   {ticket.title}
                 </h3>
                 <div className="mt-2">
                   <div className="flex items-center gap-2 mb-3">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClasses(ticket.status)}`}>
-                      {ticket.status.charAt(0).toUpperCase() + ticket.status.slice(1)}
+                      {getWorkflowState(workflow, ticket.status)?.label ?? ticket.status}
                     </span>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityClasses(ticket.priority)}`}>
-                      {ticket.priority.charAt(0).toUpperCase() + ticket.priority.slice(1)} Priority
+                    <span
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-white"
+                      style={{ backgroundColor: getPriorityLevel(priorities, ticket.priority).color }}
+                    >
+                      {getPriorityLevel(priorities, ticket.priority).label} Priority
                     </span>
                   </div>
+                  {ticket.statusReason && (
+                    <p className="text-sm text-red-600 mb-2">
+                      {getWorkflowState(workflow, ticket.status)?.label ?? ticket.status}: {ticket.statusReason}
+                    </p>
+                  )}
                   <p className="text-sm text-gray-500 mb-4">
                     {ticket.description}
                   </p>
@@ -199,13 +631,31 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
                       <div className="sm:col-span-1">
                         <dt className="text-sm font-medium text-gray-500">Due date</dt>
                         <dd className="mt-1 text-sm text-gray-900">
-                          {new Date(ticket.deadline).toLocaleDateString("en-US", {
+                          {new Date(ticket.deadline).toLocaleString("en-US", {
                             year: "numeric",
                             month: "long",
                             day: "numeric",
+                            hour: "numeric",
+                            minute: "2-digit",
+                            timeZoneName: "short",
                           })}
                         </dd>
                       </div>
+                      {ticket.assignedTo && (
+                        <div className="sm:col-span-1">
+                          <dt className="text-sm font-medium text-gray-500">Assignment lock</dt>
+                          <dd className="mt-1 text-sm text-gray-900">
+                            {ticket.assignmentLocked ? "Locked" : "Unlocked"}
+                            <button
+                              className="ml-2 text-xs text-primary hover:underline"
+                              onClick={() => toggleLock.mutate(!ticket.assignmentLocked)}
+                              disabled={toggleLock.isPending}
+                            >
+                              {ticket.assignmentLocked ? "Unlock" : "Lock"}
+                            </button>
+                          </dd>
+                        </div>
+                      )}
                       {ticket.assignedAt && (
                         <div className="sm:col-span-1">
                           <dt className="text-sm font-medium text-gray-500">Assigned on</dt>
@@ -214,6 +664,19 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
                           </dd>
                         </div>
                       )}
+                      {customFields
+                        .filter((definition) => ticket.customFields?.[definition.key] !== undefined)
+                        .map((definition) => {
+                          const value = ticket.customFields[definition.key];
+                          return (
+                            <div key={definition.key} className="sm:col-span-1">
+                              <dt className="text-sm font-medium text-gray-500">{definition.label}</dt>
+                              <dd className="mt-1 text-sm text-gray-900">
+                                {Array.isArray(value) ? value.join(", ") : String(value)}
+                              </dd>
+                            </div>
+                          );
+                        })}
                       <div className="sm:col-span-2">
                         <dt className="text-sm font-medium text-gray-500">Required skills</dt>
                         <dd className="mt-1 text-sm text-gray-900">
@@ -244,23 +707,438 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
                     </dl>
                   </div>
                   
-                  {/* Activity Log */}
+                  {/* Time in Status */}
+                  {ticket.timeInStatus && Object.keys(ticket.timeInStatus).length > 0 && (
+                    <div className="border-t border-gray-200 pt-4 mt-2">
+                      <h4 className="text-sm font-medium text-gray-900">Time in Status</h4>
+                      <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                        {workflow.states
+                          .filter(state => ticket.timeInStatus[state.name] !== undefined)
+                          .map(state => (
+                            <div key={state.name} className="flex justify-between">
+                              <dt className="text-gray-500">{state.label}</dt>
+                              <dd className="text-gray-900">{formatDuration(ticket.timeInStatus[state.name])}</dd>
+                            </div>
+                          ))}
+                      </dl>
+                    </div>
+                  )}
+                  
+                  {/* Subtasks */}
                   <div className="border-t border-gray-200 pt-4 mt-2">
-                    <h4 className="text-sm font-medium text-gray-900">Activity Log</h4>
-                    {ticket.activityLogs && ticket.activityLogs.length > 0 ? (
-                      <ul className="mt-2 space-y-3">
-                        {ticket.activityLogs.map((log: any) => (
-                          <li key={log.id} className="text-xs text-gray-500">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-gray-900">
+                        Subtasks
+                        {ticket.progress?.total > 0 && (
+                          <span className="ml-1 text-xs font-normal text-gray-500">
+                            ({ticket.progress.completed}/{ticket.progress.total} done)
+                          </span>
+                        )}
+                      </h4>
+                      <label className="flex items-center gap-1 text-xs text-gray-500">
+                        <input
+                          type="checkbox"
+                          checked={ticket.completeWithSubtasks}
+                          onChange={(e) => toggleCompleteWithSubtasks.mutate(e.target.checked)}
+                          disabled={toggleCompleteWithSubtasks.isPending}
+                        />
+                        Complete when all are done
+                      </label>
+                    </div>
+                    {ticket.progress?.total > 0 && (
+                      <div className="mt-2 h-2 w-full rounded-full bg-gray-200">
+                        <div
+                          className="h-2 rounded-full bg-emerald-500"
+                          style={{ width: `${ticket.progress.percent}%` }}
+                        ></div>
+                      </div>
+                    )}
+                    {ticket.subtasks?.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {ticket.subtasks.map((subtask) => (
+                          <li key={subtask.id} className="flex items-center justify-between text-xs text-gray-700">
+                            <span>{formatTicketKey(currentProject, subtask)} {subtask.title}</span>
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${getStatusClasses(subtask.status)}`}>
+                              {getWorkflowState(workflow, subtask.status)?.label ?? subtask.status}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {isOpenStatus(workflow, ticket.status) && (
+                      <div className="mt-2 flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="New subtask"
+                          value={subtaskTitle}
+                          onChange={(e) => setSubtaskTitle(e.target.value)}
+                          className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        />
+                        <select
+                          value={subtaskSkill}
+                          onChange={(e) => setSubtaskSkill(e.target.value)}
+                          className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        >
+                          <option value="">No skill</option>
+                          {skills.map((skill) => (
+                            <option key={skill} value={skill}>{skill}</option>
+                          ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => addSubtask.mutate()}
+                          disabled={!subtaskTitle.trim() || addSubtask.isPending}
+                        >
+                          Add
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  
+                  {/* Dependencies */}
+                  {dependencies && (
+                    <div className="border-t border-gray-200 pt-4 mt-2">
+                      <h4 className="text-sm font-medium text-gray-900">Dependencies</h4>
+                      {[
+                        { title: "Blocked by", links: dependencies.blockedBy },
+                        { title: "Blocks", links: dependencies.blocks },
+                      ].map(({ title, links }) => links.length > 0 && (
+                        <div key={title} className="mt-2">
+                          <p className="text-xs font-medium text-gray-500">{title}</p>
+                          <ul className="mt-1 space-y-1">
+                            {links.map((link) => (
+                              <li key={link.id} className="flex items-center justify-between text-xs">
+                                <span className="text-gray-700">
+                                  {link.ticket && formatTicketKey(currentProject, link.ticket)} {link.ticket?.title}
+                                  {link.ticket && (
+                                    <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full font-medium ${getStatusClasses(link.ticket.status)}`}>
+                                      {getWorkflowState(workflow, link.ticket.status)?.label ?? link.ticket.status}
+                                    </span>
+                                  )}
+                                </span>
+                                <button
+                                  className="text-gray-400 hover:text-red-500"
+                                  onClick={() => removeDependency.mutate(link.id)}
+                                  disabled={removeDependency.isPending}
+                                  aria-label="Remove dependency"
+                                >
+                                  Remove
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                      <div className="mt-2 flex gap-2">
+                        <select
+                          value={dependencyType}
+                          onChange={(e) => setDependencyType(e.target.value as "blocked_by" | "blocks")}
+                          className="rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        >
+                          <option value="blocked_by">Blocked by</option>
+                          <option value="blocks">Blocks</option>
+                        </select>
+                        <select
+                          value={dependencyTicketId}
+                          onChange={(e) => setDependencyTicketId(e.target.value)}
+                          className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        >
+                          <option value="">Select a ticket</option>
+                          {allTickets
+                            .filter((other) => other.id !== ticket.id)
+                            .map((other) => (
+                              <option key={other.id} value={other.id}>{formatTicketKey(currentProject, other)} {other.title}</option>
+                            ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => addDependency.mutate()}
+                          disabled={!dependencyTicketId || addDependency.isPending}
+                        >
+                          Link
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {/* Block reason */}
+                  {blockReason !== null && (
+                    <div className="border-t border-gray-200 pt-4 mt-2">
+                      <label htmlFor="block-reason" className="block text-sm font-medium text-gray-900">
+                        What is this ticket blocked on?
+                      </label>
+                      <div className="mt-2 flex gap-2">
+                        <input
+                          id="block-reason"
+                          type="text"
+                          value={blockReason}
+                          onChange={(e) => setBlockReason(e.target.value)}
+                          className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                          autoFocus
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => changeStatus.mutate({ status: "blocked", reason: blockReason })}
+                          disabled={!blockReason.trim() || changeStatus.isPending}
+                        >
+                          Block
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setBlockReason(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {/* Assignment Candidates */}
+                  {assignment && isOpenStatus(workflow, ticket.status) && (
+                    <div className="border-t border-gray-200 pt-4 mt-2">
+                      <h4 className="text-sm font-medium text-gray-900">
+                        Assignment Candidates
+                        <span className="ml-1 text-xs font-normal text-gray-500">({assignment.strategy})</span>
+                      </h4>
+                      <ul className="mt-2 space-y-2">
+                        {assignment.candidates.map((candidate) => (
+                          <li key={candidate.member.id} className="flex items-start justify-between text-xs">
+                            <div className={candidate.excludedReason ? "text-gray-400" : "text-gray-700"}>
+                              <p className="font-medium">
+                                {candidate.rank ? `#${candidate.rank} ` : ""}{candidate.member.name}
+                                {candidate.preferred && (
+                                  <span className="ml-1 font-normal text-emerald-600">preferred</span>
+                                )}
+                                {candidate.score !== null && (
+                                  <span className="ml-1 font-normal">score {candidate.score.toFixed(2)}</span>
+                                )}
+                              </p>
+                              <p>
+                                Skills: {candidate.matchingSkills.length ? candidate.matchingSkills.join(", ") : "none"}
+                                {" · "}Open: {candidate.openTickets}
+                                {" · "}Load: {candidate.workload.toFixed(1)}
+                              </p>
+                              {candidate.excludedReason && (
+                                <p className="text-red-500">{candidate.excludedReason}</p>
+                              )}
+                            </div>
+                            {!candidate.excludedReason && candidate.member.id !== ticket.assignedTo && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => assignTicket.mutate(candidate.member.id)}
+                                disabled={assignTicket.isPending}
+                              >
+                                Assign
+                              </Button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
+                  {/* Watchers */}
+                  <div className="border-t border-gray-200 pt-4 mt-2">
+                    <h4 className="text-sm font-medium text-gray-900">Watchers</h4>
+                    {watchers.length > 0 ? (
+                      <ul className="mt-2 space-y-1">
+                        {watchers.map((watcher) => (
+                          <li key={watcher.id} className="flex items-center justify-between text-xs">
+                            <span className="text-gray-700">{getMemberName(watcher.memberId)}</span>
+                            <button
+                              className="text-gray-400 hover:text-red-500"
+                              onClick={() => removeWatcher.mutate(watcher.memberId)}
+                              disabled={removeWatcher.isPending}
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500">No one is watching this ticket.</p>
+                    )}
+                    <div className="mt-2 flex gap-2">
+                      <select
+                        value={watcherId}
+                        onChange={(e) => setWatcherId(e.target.value)}
+                        className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1 text-xs"
+                      >
+                        <option value="">Select a team member</option>
+                        {teamMembers
+                          .filter((member) => !watchers.some((watcher) => watcher.memberId === member.id))
+                          .map((member) => (
+                            <option key={member.id} value={member.id}>{member.name}</option>
+                          ))}
+                      </select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addWatcher.mutate()}
+                        disabled={!watcherId || addWatcher.isPending}
+                      >
+                        Watch
+                      </Button>
+                    </div>
+                  </div>
+                  
+                  {/* Attachments */}
+                  <div className="border-t border-gray-200 pt-4 mt-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-gray-900">Attachments</h4>
+                      <label className="text-xs text-primary hover:underline cursor-pointer">
+                        {addAttachment.isPending ? "Uploading..." : "Attach file"}
+                        <input
+                          type="file"
+                          className="hidden"
+                          disabled={addAttachment.isPending}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) addAttachment.mutate(file);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    </div>
+                    {attachments.length > 0 ? (
+                      <ul className="mt-2 space-y-2">
+                        {attachments.map((attachment) => (
+                          <li key={attachment.id} className="flex items-center gap-2 text-xs">
+                            {attachment.mimeType.startsWith("image/") ? (
+                              <img
+                                src={getAttachmentUrl(ticket.id, attachment.id, true)}
+                                alt={attachment.fileName}
+                                className="h-10 w-10 rounded object-cover border border-gray-200"
+                              />
+                            ) : (
+                              <div className="flex h-10 w-10 items-center justify-center rounded border border-gray-200 bg-gray-50 text-gray-400">
+                                {attachment.fileName.split(".").pop()?.toUpperCase()}
+                              </div>
+                            )}
+                            <div className="min-w-0 flex-1">
+                              <a
+                                href={getAttachmentUrl(ticket.id, attachment.id)}
+                                className="block truncate font-medium text-gray-900 hover:underline"
+                              >
+                                {attachment.fileName}
+                              </a>
+                              <p className="text-gray-500">{Math.ceil(attachment.size / 1024)} KB</p>
+                            </div>
+                            <button
+                              className="text-gray-400 hover:text-red-500"
+                              onClick={() => deleteAttachment.mutate(attachment.id)}
+                              disabled={deleteAttachment.isPending}
+                            >
+                              Delete
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500">No attachments.</p>
+                    )}
+                  </div>
+                  
+                  {/* Timeline of comments and activity */}
+                  <div className="border-t border-gray-200 pt-4 mt-2">
+                    <h4 className="text-sm font-medium text-gray-900">Activity</h4>
+                    <div className="mt-2 space-y-2">
+                      <textarea
+                        placeholder="Add a comment"
+                        value={commentBody}
+                        onChange={(e) => setCommentBody(e.target.value)}
+                        className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <select
+                          value={commentAuthorId}
+                          onChange={(e) => setCommentAuthorId(e.target.value)}
+                          className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1 text-xs"
+                        >
+                          <option value="">Comment as...</option>
+                          {teamMembers.map((member) => (
+                            <option key={member.id} value={member.id}>{member.name}</option>
+                          ))}
+                        </select>
+                        <Button
+                          size="sm"
+                          onClick={() => addComment.mutate()}
+                          disabled={!commentBody.trim() || !commentAuthorId || addComment.isPending}
+                        >
+                          Comment
+                        </Button>
+                      </div>
+                    </div>
+                    {timeline.length > 0 ? (
+                      <ul className="mt-3 space-y-3">
+                        {timeline.map((entry) => entry.kind === "comment" ? (
+                          <li key={`comment-${entry.item.id}`} className="text-xs rounded-md bg-gray-50 p-2">
+                            <div className="flex items-center justify-between">
+                              <p className="font-medium text-gray-900">
+                                {getMemberName(entry.item.authorId)}
+                                <span className="ml-1 font-normal text-gray-500">
+                                  {formatDate(entry.item.createdAt)}
+                                  {entry.item.updatedAt && " (edited)"}
+                                </span>
+                              </p>
+                              {editingComment?.id !== entry.item.id && (
+                                <div className="flex gap-2 text-gray-400">
+                                  <button
+                                    className="hover:text-gray-700"
+                                    onClick={() => setEditingComment({ id: entry.item.id, body: entry.item.body })}
+                                  >
+                                    Edit
+                                  </button>
+                                  <button
+                                    className="hover:text-red-500"
+                                    onClick={() => deleteComment.mutate(entry.item.id)}
+                                    disabled={deleteComment.isPending}
+                                  >
+                                    Delete
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                            {editingComment && editingComment.id === entry.item.id ? (
+                              <div className="mt-1 space-y-1">
+                                <textarea
+                                  value={editingComment.body}
+                                  onChange={(e) => setEditingComment({ ...editingComment, body: e.target.value })}
+                                  className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                                  rows={2}
+                                />
+                                <div className="flex gap-2">
+                                  <Button
+                                    size="sm"
+                                    onClick={() => updateComment.mutate(editingComment)}
+                                    disabled={!editingComment.body.trim() || updateComment.isPending}
+                                  >
+                                    Save
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => setEditingComment(null)}>
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="mt-1 whitespace-pre-wrap text-gray-700">{entry.item.body}</p>
+                            )}
+                          </li>
+                        ) : (
+                          <li key={`log-${entry.item.id}`} className="text-xs text-gray-500">
                             <div className="flex items-start">
                               <div className="min-w-0 flex-1">
                                 <p className="font-medium text-gray-900">
-                                  {log.action.charAt(0).toUpperCase() + log.action.slice(1)}
-                                  {log.action === "assigned" && log.details?.memberName && 
-                                    ` to ${log.details.memberName}`}
-                                  {log.action === "completed" && log.details?.completedBy && 
-                                    ` by ${log.details.completedBy}`}
+                                  {entry.item.action.charAt(0).toUpperCase() + entry.item.action.slice(1).replace(/_/g, " ")}
+                                  {entry.item.action === "assigned" && entry.item.details?.memberName && 
+                                    ` to ${entry.item.details.memberName}`}
+                                  {entry.item.action === "completed" && entry.item.details?.completedBy && 
+                                    ` by ${entry.item.details.completedBy}`}
+                                  {entry.item.action.startsWith("comment") && entry.item.details?.authorId &&
+                                    ` by ${getMemberName(entry.item.details.authorId)}`}
                                 </p>
-                                <p>{formatDate(log.timestamp)}</p>
+                                <p>{formatDate(entry.item.timestamp)}</p>
                               </div>
                             </div>
                           </li>
@@ -283,9 +1161,51 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
               Close
             </Button>
             
-            {ticket.status === "assigned" && (
+            {ticket.status === workflow.initialState && (
+              <Button
+                onClick={() => assignTicket.mutate(undefined)}
+                disabled={assignTicket.isPending}
+                className="w-full sm:w-auto"
+              >
+                {assignTicket.isPending ? "Processing..." : "Auto-assign"}
+              </Button>
+            )}
+            
+            {canTransition(workflow, ticket.status, "in_progress") && (
+              <Button
+                onClick={() => changeStatus.mutate({ status: "in_progress" })}
+                disabled={changeStatus.isPending}
+                variant="outline"
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Start Work
+              </Button>
+            )}
+            
+            {canTransition(workflow, ticket.status, "blocked") && blockReason === null && (
+              <Button
+                onClick={() => setBlockReason("")}
+                variant="outline"
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Block
+              </Button>
+            )}
+            
+            {canTransition(workflow, ticket.status, "on_hold") && (
+              <Button
+                onClick={() => changeStatus.mutate({ status: "on_hold" })}
+                disabled={changeStatus.isPending}
+                variant="outline"
+                className="mt-3 w-full sm:mt-0 sm:ml-3 sm:w-auto"
+              >
+                Put on Hold
+              </Button>
+            )}
+            
+            {canTransition(workflow, ticket.status, workflow.completedState) && (
               <Button
-                onClick={() => completeTicket.mutate()}
+                onClick={handleComplete}
                 disabled={completeTicket.isPending}
                 className="w-full sm:w-auto"
               >
@@ -293,7 +1213,7 @@ export default function TicketDetailsModal({ ticketId, onClose }: TicketDetailsM
               </Button>
             )}
             
-            {ticket.status === "completed" && (
+            {!isOpenStatus(workflow, ticket.status) && (
               <Button
                 onClick={() => reopenTicket.mutate()}
                 disabled={reopenTicket.isPending}
@@ -1,10 +1,15 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { format } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePriorities, getDefaultPriority } from "@/hooks/use-priorities";
+import { buildCustomFieldsSchema } from "@shared/fields";
+import { getTemplateDefaults } from "@shared/templates";
+import type { CustomFieldDefinition, TicketTemplate } from "@shared/schema";
 
 import {
   Form,
@@ -38,9 +43,16 @@ const ticketFormSchema = z.object({
   title: z.string().min(3, { message: "Title must be at least 3 characters" }),
   description: z.string().min(5, { message: "Please provide a detailed description" }),
   skills: z.array(z.string()).min(1, { message: "Select at least one required skill" }),
-  deadline: z.string().min(1, { message: "Deadline is required" }),
-  priority: z.enum(["low", "medium", "high"]),
+  // Local date and time from the datetime-local input, sent as a UTC timestamp
+  deadline: z.string()
+    .min(1, { message: "Deadline is required" })
+    .refine(value => !isNaN(new Date(value).getTime()), { message: "Enter a valid date and time" }),
+  // One of the project's priority levels
+  priority: z.string().min(1, { message: "Select a priority" }),
   assignedTo: z.string(),
+  labelIds: z.array(z.number()),
+  // Raw input per custom field key, converted and checked against the definitions on submit
+  customFields: z.record(z.union([z.string(), z.array(z.string())])),
 });
 
 type TicketFormValues = z.infer<typeof ticketFormSchema>;
@@ -48,12 +60,31 @@ type TicketFormValues = z.infer<typeof ticketFormSchema>;
 export default function TicketForm({ availableSkills }: TicketFormProps) {
   const { toast } = useToast();
   const [selectedSkills, setSelectedSkills] = useState<string[]>([]);
+  const [newLabelName, setNewLabelName] = useState("");
+  const [newLabelColor, setNewLabelColor] = useState("#3b82f6");
+  const [selectedTemplate, setSelectedTemplate] = useState<TicketTemplate | null>(null);
+  const priorities = usePriorities();
 
   // Get team members for dropdown
   const { data: teamMembers = [] } = useQuery<any[]>({
     queryKey: ['/api/team-members'],
   });
 
+  // Get labels that can be put on the ticket
+  const { data: labels = [] } = useQuery<any[]>({
+    queryKey: ['/api/labels'],
+  });
+
+  // Get admin-defined custom fields
+  const { data: customFields = [] } = useQuery<CustomFieldDefinition[]>({
+    queryKey: ['/api/custom-fields'],
+  });
+
+  // Get the project's ticket templates
+  const { data: templates = [] } = useQuery<TicketTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
   // Set up form with validation
   const form = useForm<TicketFormValues>({
     resolver: zodResolver(ticketFormSchema),
@@ -62,17 +93,32 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
       description: "",
       skills: [],
       deadline: "",
-      priority: "medium",
+      priority: getDefaultPriority(priorities),
       assignedTo: "auto",
+      labelIds: [],
+      customFields: {},
     },
   });
 
+  // Switch to the default priority when the chosen one isn't in the (newly loaded) scheme
+  useEffect(() => {
+    if (!priorities.some(level => level.key === form.getValues('priority'))) {
+      form.setValue('priority', getDefaultPriority(priorities));
+    }
+  }, [priorities, form]);
+
   // Create ticket mutation
   const createTicket = useMutation({
-    mutationFn: async (values: TicketFormValues) => {
+    mutationFn: async ({ values, customFieldValues }: { values: TicketFormValues; customFieldValues: Record<string, unknown> }) => {
       // Convert assignedTo to number if provided, handle auto-assign
       const payload = {
         ...values,
+        customFields: customFieldValues,
+        deadline: new Date(values.deadline).toISOString(),
+        // Keep the template's proficiency requirements for the skills still selected
+        minSkillLevels: selectedTemplate
+          ? Object.fromEntries(Object.entries(selectedTemplate.minSkillLevels).filter(([skill]) => values.skills.includes(skill)))
+          : undefined,
         assignedTo: values.assignedTo && values.assignedTo !== "auto" ? 
           parseInt(values.assignedTo) : undefined,
       };
@@ -87,10 +133,13 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
         description: "",
         skills: [],
         deadline: "",
-        priority: "medium",
+        priority: getDefaultPriority(priorities),
         assignedTo: "auto",
+        labelIds: [],
+        customFields: {},
       });
       setSelectedSkills([]);
+      setSelectedTemplate(null);
       
       // Invalidate queries to refresh lists
       queryClient.invalidateQueries({ queryKey: ['/api/tickets'] });
@@ -110,9 +159,79 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
     },
   });
 
+  // Create a label and put it on the ticket right away
+  const createLabel = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/labels', { name: newLabelName, color: newLabelColor });
+      return response.json();
+    },
+    onSuccess: (label) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/labels'] });
+      form.setValue('labelIds', [...form.getValues('labelIds'), label.id]);
+      setNewLabelName("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Creating Label",
+        description: `${error}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Turn raw custom field input into typed values, leaving out empty fields
+  const toCustomFieldValues = (raw: TicketFormValues["customFields"]) => {
+    const values: Record<string, unknown> = {};
+    for (const field of customFields) {
+      const value = raw[field.key];
+      if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) continue;
+      values[field.key] = field.type === "number" ? Number(value) : value;
+    }
+    return values;
+  };
+
   // Handle form submission
   const onSubmit = (values: TicketFormValues) => {
-    createTicket.mutate(values);
+    const customFieldValues = toCustomFieldValues(values.customFields);
+    const result = buildCustomFieldsSchema(customFields).safeParse(customFieldValues);
+    
+    if (!result.success) {
+      for (const [key, messages] of Object.entries(result.error.formErrors.fieldErrors)) {
+        form.setError(`customFields.${key}`, { message: messages?.[0] });
+      }
+      return;
+    }
+    
+    createTicket.mutate({ values, customFieldValues: result.data });
+  };
+
+  // Pre-fill the form from a template, keeping the chosen assignee and any deadline it leaves open
+  const handleTemplateChange = (value: string) => {
+    const template = templates.find(template => template.id === parseInt(value));
+    if (!template) return;
+    
+    const defaults = getTemplateDefaults(template);
+    const skills = (defaults.skills ?? []).filter(skill => availableSkills.includes(skill));
+    form.reset({
+      ...form.getValues(),
+      title: defaults.title ?? "",
+      description: defaults.description ?? "",
+      skills,
+      deadline: defaults.deadline
+        ? format(defaults.deadline, "yyyy-MM-dd'T'HH:mm")
+        : form.getValues('deadline'),
+      priority: priorities.some(level => level.key === template.priority)
+        ? template.priority
+        : getDefaultPriority(priorities),
+      labelIds: defaults.labelIds ?? [],
+      customFields: Object.fromEntries(
+        Object.entries(template.customFields).map(([key, fieldValue]) =>
+          [key, Array.isArray(fieldValue) ? fieldValue.map(String) : String(fieldValue)]
+        )
+      ),
+    });
+    setSelectedSkills(skills);
+    setSelectedTemplate(template);
   };
 
   // Handle skill checkbox changes
@@ -134,6 +253,33 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
       
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          {/* Template Picker */}
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Start From Template (Optional)</label>
+              <Select
+                value={selectedTemplate ? String(selectedTemplate.id) : undefined}
+                onValueChange={handleTemplateChange}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedTemplate?.deadlineBusinessDays != null && (
+                <p className="text-sm text-muted-foreground">
+                  Deadline set to {selectedTemplate.deadlineBusinessDays} business days from today
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Title Input */}
           <FormField
             control={form.control}
@@ -211,6 +357,63 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
             )}
           />
           
+          {/* Labels */}
+          <FormField
+            control={form.control}
+            name="labelIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Labels (Optional)</FormLabel>
+                <div className="flex flex-wrap gap-2">
+                  {labels.map((label: any) => {
+                    const selected = field.value.includes(label.id);
+                    return (
+                      <button
+                        key={label.id}
+                        type="button"
+                        onClick={() => field.onChange(selected
+                          ? field.value.filter((id: number) => id !== label.id)
+                          : [...field.value, label.id])}
+                        className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                          selected ? "text-white" : "bg-white text-gray-700"
+                        }`}
+                        style={selected
+                          ? { backgroundColor: label.color, borderColor: label.color }
+                          : { borderColor: label.color }}
+                      >
+                        {label.name}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="New label"
+                    value={newLabelName}
+                    onChange={(e) => setNewLabelName(e.target.value)}
+                    className="h-8 text-xs"
+                  />
+                  <input
+                    type="color"
+                    value={newLabelColor}
+                    onChange={(e) => setNewLabelColor(e.target.value)}
+                    className="h-8 w-10 rounded border border-gray-300"
+                    aria-label="Label color"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => createLabel.mutate()}
+                    disabled={!newLabelName.trim() || createLabel.isPending}
+                  >
+                    Add
+                  </Button>
+                </div>
+              </FormItem>
+            )}
+          />
+          
           {/* Deadline Input */}
           <FormField
             control={form.control}
@@ -222,15 +425,82 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
                 </FormLabel>
                 <FormControl>
                   <Input 
-                    type="date" 
+                    type="datetime-local" 
                     {...field} 
                   />
                 </FormControl>
+                <FormDescription>
+                  In your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone})
+                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
           
+          {/* Custom Fields */}
+          {customFields.map(definition => (
+            <FormField
+              key={definition.id}
+              control={form.control}
+              name={`customFields.${definition.key}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {definition.label} {definition.required && <span className="text-red-500">*</span>}
+                  </FormLabel>
+                  {definition.type === "multi_select" ? (
+                    <div className="flex flex-wrap gap-2">
+                      {definition.options.map(option => {
+                        const selected = Array.isArray(field.value) ? field.value : [];
+                        return (
+                          <div
+                            key={option}
+                            className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800"
+                          >
+                            <Checkbox
+                              id={`field-${definition.key}-${option}`}
+                              checked={selected.includes(option)}
+                              onCheckedChange={(checked) => field.onChange(checked
+                                ? [...selected, option]
+                                : selected.filter(value => value !== option))}
+                              className="mr-1"
+                            />
+                            <label htmlFor={`field-${definition.key}-${option}`}>{option}</label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : definition.type === "single_select" ? (
+                    <Select
+                      onValueChange={field.onChange}
+                      value={typeof field.value === "string" ? field.value : ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={`Select ${definition.label.toLowerCase()}`} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {definition.options.map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input
+                        type={definition.type === "text" ? "text" : definition.type}
+                        value={typeof field.value === "string" ? field.value : ""}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          
           {/* Team Member Assignment */}
           <FormField
             control={form.control}
@@ -273,27 +543,18 @@ export default function TicketForm({ availableSkills }: TicketFormProps) {
                 <FormControl>
                   <RadioGroup
                     onValueChange={field.onChange}
-                    defaultValue={field.value}
-                    className="flex space-x-4"
+                    value={field.value}
+                    className="flex flex-wrap gap-4"
                   >
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="low" id="priority-low" />
-                      <label htmlFor="priority-low" className="text-sm text-gray-700">
-                        Low
-                      </label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="medium" id="priority-medium" />
-                      <label htmlFor="priority-medium" className="text-sm text-gray-700">
-                        Medium
-                      </label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="high" id="priority-high" />
-                      <label htmlFor="priority-high" className="text-sm text-gray-700">
-                        High
-                      </label>
-                    </div>
+                    {priorities.map(level => (
+                      <div key={level.key} className="flex items-center space-x-2">
+                        <RadioGroupItem value={level.key} id={`priority-${level.key}`} />
+                        <label htmlFor={`priority-${level.key}`} className="flex items-center text-sm text-gray-700">
+                          <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: level.color }} />
+                          {level.label}
+                        </label>
+                      </div>
+                    ))}
                   </RadioGroup>
                 </FormControl>
                 <FormMessage />
@@ -1,7 +1,12 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { projectUrl } from "@/lib/project";
 import { useToast } from "@/hooks/use-toast";
+import { useWorkflow } from "@/hooks/use-workflow";
+import { usePriorities, getPriorityLevel } from "@/hooks/use-priorities";
+import { useProjects, formatTicketKey } from "@/hooks/use-project";
+import { getStatusesInCategory, getWorkflowState, isOpenStatus } from "@shared/workflow";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,32 +25,49 @@ interface TicketListProps {
 
 export default function TicketList({ onViewTicket }: TicketListProps) {
   const { toast } = useToast();
+  const workflow = useWorkflow();
+  const { currentProject } = useProjects();
+  const priorities = usePriorities();
   const [activeTab, setActiveTab] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [labelFilter, setLabelFilter] = useState<string>("all");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every minute so SLA countdowns stay current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fetch labels for the filter and ticket badges
+  const { data: labels = [] } = useQuery<any[]>({
+    queryKey: ['/api/labels'],
+  });
 
   // Fetch all tickets for counting purposes
   const { data: allTickets = [] } = useQuery({
     queryKey: ['/api/tickets', 'all'],
     queryFn: async () => {
-      const response = await fetch('/api/tickets', { credentials: 'include' });
+      const response = await fetch(projectUrl('/api/tickets'), { credentials: 'include' });
       if (!response.ok) throw new Error('Failed to fetch all tickets');
       return response.json();
     },
     refetchInterval: 2000, // Refetch tickets every 2 seconds
   });
 
-  // Fetch filtered tickets based on status
+  // Fetch filtered tickets based on status and label
   const { data: tickets = [], isLoading } = useQuery({
-    queryKey: ['/api/tickets', statusFilter],
+    queryKey: ['/api/tickets', statusFilter, labelFilter],
     queryFn: async ({ queryKey }) => {
-      const status = queryKey[1];
-      const url = status === "all" 
-        ? '/api/tickets' 
-        : `/api/tickets?status=${status}`;
+      const [, status, label] = queryKey;
+      const params = new URLSearchParams();
+      if (status !== "all") params.set("status", status);
+      if (label !== "all") params.set("labels", label);
+      const url = params.toString() ? `/api/tickets?${params}` : '/api/tickets';
       
       console.log("Fetching tickets with URL:", url);
-      const response = await fetch(url, { credentials: 'include' });
+      const response = await fetch(projectUrl(url), { credentials: 'include' });
       if (!response.ok) throw new Error('Failed to fetch tickets');
       const data = await response.json();
       console.log("Received tickets:", data);
@@ -150,9 +172,9 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
     // Separate tab UI from actual status filter values
     let filter = "all";
     if (status === "open") {
-      filter = "pending,assigned";
+      filter = getStatusesInCategory(workflow, "open").join(",");
     } else if (status === "closed") {
-      filter = "completed";
+      filter = getStatusesInCategory(workflow, "done").join(",");
     }
     
     console.log("Setting status filter to:", filter);
@@ -167,6 +189,22 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
     );
   });
 
+  // Split tickets into open and closed according to the workflow
+  const openTickets = allTickets.filter((t: any) => isOpenStatus(workflow, t.status));
+  const closedTickets = allTickets.filter((t: any) => !isOpenStatus(workflow, t.status));
+
+  // Subtask progress of a parent ticket, as "done/total"
+  const getSubtaskSummary = (ticketId: number) => {
+    const subtasks = allTickets.filter((t: any) => t.parentId === ticketId);
+    if (subtasks.length === 0) return null;
+    const done = subtasks.filter((t: any) => !isOpenStatus(workflow, t.status)).length;
+    return `${done}/${subtasks.length}`;
+  };
+
+  // Helper function to get the display label of a status
+  const getStatusLabel = (status: string) =>
+    getWorkflowState(workflow, status)?.label ?? status.charAt(0).toUpperCase() + status.slice(1);
+
   // Helper function to determine status color class
   const getStatusClasses = (status: string) => {
     switch(status) {
@@ -174,6 +212,12 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
         return "bg-amber-100 text-amber-800";
       case "assigned":
         return "bg-violet-100 text-violet-800";
+      case "in_progress":
+        return "bg-blue-100 text-blue-800";
+      case "blocked":
+        return "bg-red-100 text-red-800";
+      case "on_hold":
+        return "bg-gray-200 text-gray-700";
       case "completed":
         return "bg-emerald-100 text-emerald-800";
       default:
@@ -202,6 +246,38 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
     );
   };
 
+  // Countdown to the ticket's next SLA target, colored by how it stands
+  const renderSlaBadge = (sla: any) => {
+    if (!sla) return null;
+    
+    const remainingMs = sla.nextDueAt ? new Date(sla.nextDueAt).getTime() - now : null;
+    const breached = sla.state === "breached" || (remainingMs !== null && remainingMs <= 0);
+    
+    let label: string;
+    if (breached) {
+      label = "SLA breached";
+    } else if (remainingMs === null) {
+      label = "SLA met";
+    } else {
+      const minutes = Math.floor(remainingMs / 60_000);
+      const days = Math.floor(minutes / 1440);
+      const hours = Math.floor((minutes % 1440) / 60);
+      label = `SLA ${days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`} left`;
+    }
+    
+    const colorClass = breached
+      ? "bg-red-100 text-red-800"
+      : sla.state === "at_risk"
+        ? "bg-amber-100 text-amber-800"
+        : "bg-green-100 text-green-800";
+    
+    return (
+      <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${colorClass}`}>
+        {label}
+      </span>
+    );
+  };
+
   // Show loading state
   if (isLoading) {
     return (
@@ -267,9 +343,23 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="assigned">Assigned</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
+                  {workflow.states.map(state => (
+                    <SelectItem key={state.name} value={state.name}>{state.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select 
+                value={labelFilter} 
+                onValueChange={setLabelFilter}
+              >
+                <SelectTrigger className="px-3 py-2 text-sm w-[130px]">
+                  <SelectValue placeholder="All Labels" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Labels</SelectItem>
+                  {labels.map((label: any) => (
+                    <SelectItem key={label.id} value={label.name}>{label.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -301,7 +391,7 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
               >
                 Open
                 <span className="ml-1 bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full text-xs">
-                  {allTickets.filter((t: any) => t.status !== "completed").length}
+                  {openTickets.length}
                 </span>
               </button>
               <button 
@@ -314,7 +404,7 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
               >
                 Closed
                 <span className="ml-1 bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full text-xs">
-                  {allTickets.filter((t: any) => t.status === "completed").length}
+                  {closedTickets.length}
                 </span>
               </button>
             </nav>
@@ -334,10 +424,23 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
                 <div>
                   <div className="flex items-center">
+                    <span className="mr-2 text-sm font-mono text-gray-500">{formatTicketKey(currentProject, ticket)}</span>
                     <h3 className="text-base font-medium text-gray-900">{ticket.title}</h3>
                     <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClasses(ticket.status)}`}>
-                      {ticket.status.charAt(0).toUpperCase() + ticket.status.slice(1)}
+                      {getStatusLabel(ticket.status)}
                     </span>
+                    {renderSlaBadge(ticket.sla)}
+                    {labels
+                      .filter((label: any) => ticket.labelIds?.includes(label.id))
+                      .map((label: any) => (
+                        <span
+                          key={label.id}
+                          className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                          style={{ backgroundColor: label.color }}
+                        >
+                          {label.name}
+                        </span>
+                      ))}
                   </div>
                   <div className="mt-1">
                     <p className="text-sm text-gray-600 line-clamp-2">{ticket.description}</p>
@@ -349,15 +452,24 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                     </div>
                     <div className="flex items-center">
                       <Calendar className="h-4 w-4 mr-1" />
-                      Due: {new Date(ticket.deadline).toLocaleDateString("en-US", {
+                      Due: {new Date(ticket.deadline).toLocaleString("en-US", {
                         year: "numeric",
                         month: "short",
                         day: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                        timeZoneName: "short",
                       })}
                     </div>
                     <div className="flex items-center">
                       <CloudLightning className="h-4 w-4 mr-1" />
-                      Priority: {ticket.priority.charAt(0).toUpperCase() + ticket.priority.slice(1)}
+                      Priority:
+                      <span
+                        className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white"
+                        style={{ backgroundColor: getPriorityLevel(priorities, ticket.priority).color }}
+                      >
+                        {getPriorityLevel(priorities, ticket.priority).label}
+                      </span>
                     </div>
                     {ticket.assignedTo && ticket.assignedMember && (
                       <div className="flex items-center">
@@ -365,10 +477,16 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                         Assigned to: {ticket.assignedMember.name}
                       </div>
                     )}
+                    {ticket.parentId && (
+                      <div>Subtask of #{ticket.parentId}</div>
+                    )}
+                    {getSubtaskSummary(ticket.id) && (
+                      <div>Subtasks: {getSubtaskSummary(ticket.id)} done</div>
+                    )}
                   </div>
                 </div>
                 <div className="mt-3 sm:mt-0 flex space-x-2">
-                  {ticket.status === "pending" && (
+                  {ticket.status === workflow.initialState && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -379,7 +497,7 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                     </Button>
                   )}
                   
-                  {ticket.status === "assigned" && (
+                  {ticket.status === workflow.assignedState && !ticket.assignmentLocked && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -390,7 +508,7 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                     </Button>
                   )}
                   
-                  {ticket.status === "completed" && (
+                  {!isOpenStatus(workflow, ticket.status) && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -424,8 +542,8 @@ export default function TicketList({ onViewTicket }: TicketListProps) {
                   activeTab === "all" 
                     ? allTickets.length 
                     : activeTab === "open" 
-                      ? allTickets.filter(t => t.status !== "completed").length 
-                      : allTickets.filter(t => t.status === "completed").length
+                      ? openTickets.length 
+                      : closedTickets.length
                 }</span> tickets
               </p>
             </div>
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultPriorities, type PriorityLevel } from "@shared/schema";
+
+// Current project's priority levels, lowest first, falling back to the default scheme while they load
+export function usePriorities(): PriorityLevel[] {
+  const { data } = useQuery<PriorityLevel[]>({
+    queryKey: ['/api/priorities'],
+  });
+
+  return data ?? defaultPriorities;
+}
+
+// Level for a ticket's priority, with a neutral stand-in for priorities the scheme no longer has
+export function getPriorityLevel(priorities: PriorityLevel[], key: string): PriorityLevel {
+  return priorities.find(level => level.key === key)
+    ?? { key, label: key.charAt(0).toUpperCase() + key.slice(1), color: "#6b7280", weight: 1 };
+}
+
+// Priority new tickets start with: the middle of the scheme
+export function getDefaultPriority(priorities: PriorityLevel[]): string {
+  return priorities[Math.floor((priorities.length - 1) / 2)]?.key ?? "";
+}
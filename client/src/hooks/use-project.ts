@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Project } from "@shared/schema";
+import { getCurrentProjectId } from "@/lib/project";
+
+// Projects served by the API along with the one currently selected
+export function useProjects() {
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+  });
+  const currentProject = projects.find(project => project.id === getCurrentProjectId());
+
+  return { projects, currentProject };
+}
+
+// Human-readable ticket key such as "MAIN-12"
+export function formatTicketKey(project: Project | undefined, ticket: { id: number; number?: number }) {
+  return project && ticket.number ? `${project.key}-${ticket.number}` : `#${ticket.id}`;
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultWorkflow, type WorkflowDefinition } from "@shared/workflow";
+
+// Ticket workflow served by the API, falling back to the built-in one while it loads
+export function useWorkflow(): WorkflowDefinition {
+  const { data } = useQuery<WorkflowDefinition>({
+    queryKey: ['/api/workflow'],
+  });
+
+  return data ?? defaultWorkflow;
+}
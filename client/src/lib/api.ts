@@ -1,9 +1,10 @@
 import { apiRequest } from "./queryClient";
+import { projectUrl } from "./project";
 
 // Ticket API functions
 export const fetchTickets = async (status?: string) => {
   const url = status ? `/api/tickets?status=${status}` : '/api/tickets';
-  const response = await fetch(url, { credentials: 'include' });
+  const response = await fetch(projectUrl(url), { credentials: 'include' });
   
   if (!response.ok) {
     throw new Error('Failed to fetch tickets');
@@ -13,7 +14,7 @@ export const fetchTickets = async (status?: string) => {
 };
 
 export const fetchTicket = async (id: number) => {
-  const response = await fetch(`/api/tickets/${id}`, { credentials: 'include' });
+  const response = await fetch(projectUrl(`/api/tickets/${id}`), { credentials: 'include' });
   
   if (!response.ok) {
     throw new Error('Failed to fetch ticket');
@@ -32,13 +33,102 @@ export const updateTicket = async (id: number, updates: any) => {
   return response.json();
 };
 
-export const assignTicket = async (id: number, memberId?: number) => {
-  const response = await apiRequest('POST', `/api/tickets/${id}/assign`, { memberId });
+export const deleteTicket = async (id: number) => {
+  await apiRequest('DELETE', `/api/tickets/${id}`);
+};
+
+// Ticket template API functions
+export const fetchTicketTemplates = async () => {
+  const response = await fetch(projectUrl('/api/templates'), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch ticket templates');
+  }
+  
+  return response.json();
+};
+
+export const createTicketTemplate = async (templateData: any) => {
+  const response = await apiRequest('POST', '/api/templates', templateData);
+  return response.json();
+};
+
+export const updateTicketTemplate = async (id: number, updates: any) => {
+  const response = await apiRequest('PATCH', `/api/templates/${id}`, updates);
+  return response.json();
+};
+
+export const deleteTicketTemplate = async (id: number) => {
+  await apiRequest('DELETE', `/api/templates/${id}`);
+};
+
+// Overrides may include a relative deadline such as "+3" business days
+export const createTicketFromTemplate = async (id: number, overrides: any = {}) => {
+  const response = await apiRequest('POST', `/api/templates/${id}/tickets`, overrides);
+  return response.json();
+};
+
+// Recurring ticket API functions
+export const fetchRecurringTickets = async () => {
+  const response = await fetch(projectUrl('/api/recurring-tickets'), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch recurring tickets');
+  }
+  
+  return response.json();
+};
+
+export const createRecurringTicket = async (definition: { templateId: number; schedule: string; deadlineBusinessDays?: number }) => {
+  const response = await apiRequest('POST', '/api/recurring-tickets', definition);
+  return response.json();
+};
+
+export const updateRecurringTicket = async (id: number, updates: any) => {
+  const response = await apiRequest('PATCH', `/api/recurring-tickets/${id}`, updates);
+  return response.json();
+};
+
+export const deleteRecurringTicket = async (id: number) => {
+  await apiRequest('DELETE', `/api/recurring-tickets/${id}`);
+};
+
+// Trash API functions
+export const fetchDeletedTickets = async () => {
+  const response = await fetch(projectUrl('/api/tickets/trash'), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch deleted tickets');
+  }
+  
   return response.json();
 };
 
-export const completeTicket = async (id: number) => {
-  const response = await apiRequest('POST', `/api/tickets/${id}/complete`, {});
+export const restoreTicket = async (id: number) => {
+  const response = await apiRequest('POST', `/api/tickets/${id}/restore`, {});
+  return response.json();
+};
+
+export const assignTicket = async (id: number, memberId?: number, strategy?: string, force?: boolean) => {
+  const response = await apiRequest('POST', `/api/tickets/${id}/assign`, { memberId, strategy, force });
+  return response.json();
+};
+
+export const fetchAssignmentCandidates = async (id: number, strategy?: string) => {
+  const url = strategy
+    ? `/api/tickets/${id}/assignment-candidates?strategy=${strategy}`
+    : `/api/tickets/${id}/assignment-candidates`;
+  const response = await fetch(projectUrl(url), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch assignment candidates');
+  }
+  
+  return response.json();
+};
+
+export const completeTicket = async (id: number, force?: boolean) => {
+  const response = await apiRequest('POST', `/api/tickets/${id}/complete`, { force });
   return response.json();
 };
 
@@ -47,9 +137,154 @@ export const reopenTicket = async (id: number) => {
   return response.json();
 };
 
+export const transitionTicket = async (id: number, status: string, reason?: string) => {
+  const response = await apiRequest('POST', `/api/tickets/${id}/transition`, { status, reason });
+  return response.json();
+};
+
+export const fetchTimeInStatus = async (id: number) => {
+  const response = await fetch(projectUrl(`/api/tickets/${id}/time-in-status`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch time in status');
+  }
+  
+  return response.json();
+};
+
+// Comment API functions
+export const fetchComments = async (ticketId: number) => {
+  const response = await fetch(projectUrl(`/api/tickets/${ticketId}/comments`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch comments');
+  }
+  
+  return response.json();
+};
+
+export const addComment = async (ticketId: number, authorId: number, body: string) => {
+  const response = await apiRequest('POST', `/api/tickets/${ticketId}/comments`, { authorId, body });
+  return response.json();
+};
+
+export const updateComment = async (ticketId: number, commentId: number, body: string) => {
+  const response = await apiRequest('PATCH', `/api/tickets/${ticketId}/comments/${commentId}`, { body });
+  return response.json();
+};
+
+export const deleteComment = async (ticketId: number, commentId: number) => {
+  await apiRequest('DELETE', `/api/tickets/${ticketId}/comments/${commentId}`);
+};
+
+// Watcher API functions
+export const fetchWatchers = async (ticketId: number) => {
+  const response = await fetch(projectUrl(`/api/tickets/${ticketId}/watchers`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch watchers');
+  }
+  
+  return response.json();
+};
+
+export const addWatcher = async (ticketId: number, memberId: number) => {
+  const response = await apiRequest('POST', `/api/tickets/${ticketId}/watchers`, { memberId });
+  return response.json();
+};
+
+export const removeWatcher = async (ticketId: number, memberId: number) => {
+  await apiRequest('DELETE', `/api/tickets/${ticketId}/watchers/${memberId}`);
+};
+
+// Notification API functions
+export const fetchNotifications = async (memberId: number, unreadOnly = false) => {
+  const query = unreadOnly ? '?unread=true' : '';
+  const response = await fetch(projectUrl(`/api/team-members/${memberId}/notifications${query}`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch notifications');
+  }
+  
+  return response.json();
+};
+
+export const markNotificationRead = async (memberId: number, notificationId: number) => {
+  const response = await apiRequest('POST', `/api/team-members/${memberId}/notifications/${notificationId}/read`);
+  return response.json();
+};
+
+export const markAllNotificationsRead = async (memberId: number) => {
+  const response = await apiRequest('POST', `/api/team-members/${memberId}/notifications/read`);
+  return response.json();
+};
+
+// Attachment API functions
+export const fetchAttachments = async (ticketId: number) => {
+  const response = await fetch(projectUrl(`/api/tickets/${ticketId}/attachments`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch attachments');
+  }
+  
+  return response.json();
+};
+
+// Uploads go as multipart form data, so they bypass apiRequest's JSON body
+export const uploadAttachment = async (ticketId: number, file: File) => {
+  const formData = new FormData();
+  formData.append('file', file);
+  
+  const response = await fetch(projectUrl(`/api/tickets/${ticketId}/attachments`), {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+  });
+  
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to upload attachment');
+  }
+  
+  return response.json();
+};
+
+export const getAttachmentUrl = (ticketId: number, attachmentId: number, inline = false) =>
+  projectUrl(`/api/tickets/${ticketId}/attachments/${attachmentId}/download${inline ? '?inline=true' : ''}`);
+
+export const deleteAttachment = async (ticketId: number, attachmentId: number) => {
+  await apiRequest('DELETE', `/api/tickets/${ticketId}/attachments/${attachmentId}`);
+};
+
+// Dependency API functions
+export const fetchDependencies = async (id: number) => {
+  const response = await fetch(projectUrl(`/api/tickets/${id}/dependencies`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch dependencies');
+  }
+  
+  return response.json();
+};
+
+export const addDependency = async (id: number, type: 'blocked_by' | 'blocks', ticketId: number) => {
+  const response = await apiRequest('POST', `/api/tickets/${id}/dependencies`, { type, ticketId });
+  return response.json();
+};
+
+export const removeDependency = async (id: number, dependencyId: number) => {
+  await apiRequest('DELETE', `/api/tickets/${id}/dependencies/${dependencyId}`);
+};
+
+// Assignment API functions
+export const optimizeAssignments = async (options: { includeAssigned?: boolean; apply?: boolean; strategy?: string } = {}) => {
+  const response = await apiRequest('POST', '/api/assignments/optimize', options);
+  return response.json();
+};
+
 // Team Member API functions
 export const fetchTeamMembers = async () => {
-  const response = await fetch('/api/team-members', { credentials: 'include' });
+  const response = await fetch(projectUrl('/api/team-members'), { credentials: 'include' });
   
   if (!response.ok) {
     throw new Error('Failed to fetch team members');
@@ -59,7 +294,7 @@ export const fetchTeamMembers = async () => {
 };
 
 export const fetchTeamMember = async (id: number) => {
-  const response = await fetch(`/api/team-members/${id}`, { credentials: 'include' });
+  const response = await fetch(projectUrl(`/api/team-members/${id}`), { credentials: 'include' });
   
   if (!response.ok) {
     throw new Error('Failed to fetch team member');
@@ -68,9 +303,38 @@ export const fetchTeamMember = async (id: number) => {
   return response.json();
 };
 
+export const createTeamMember = async (memberData: any) => {
+  const response = await apiRequest('POST', '/api/team-members', memberData);
+  return response.json();
+};
+
+export const updateTeamMember = async (id: number, updates: any) => {
+  const response = await apiRequest('PATCH', `/api/team-members/${id}`, updates);
+  return response.json();
+};
+
+export const fetchAvailability = async (memberId: number) => {
+  const response = await fetch(projectUrl(`/api/team-members/${memberId}/availability`), { credentials: 'include' });
+  
+  if (!response.ok) {
+    throw new Error('Failed to fetch availability');
+  }
+  
+  return response.json();
+};
+
+export const addOutOfOffice = async (memberId: number, window: { startDate: string; endDate: string; reason?: string }) => {
+  const response = await apiRequest('POST', `/api/team-members/${memberId}/out-of-office`, window);
+  return response.json();
+};
+
+export const deleteOutOfOffice = async (memberId: number, windowId: number) => {
+  await apiRequest('DELETE', `/api/team-members/${memberId}/out-of-office/${windowId}`);
+};
+
 // Activity Log API functions
 export const fetchActivityLogs = async (ticketId: number) => {
-  const response = await fetch(`/api/tickets/${ticketId}/activity`, { credentials: 'include' });
+  const response = await fetch(projectUrl(`/api/tickets/${ticketId}/activity`), { credentials: 'include' });
   
   if (!response.ok) {
     throw new Error('Failed to fetch activity logs');
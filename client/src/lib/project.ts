@@ -0,0 +1,21 @@
+// Tracks the project the UI is working in
+const STORAGE_KEY = "currentProjectId";
+const defaultProjectId = 1;
+
+// API paths that are scoped to a project
+const projectScopedPaths = ["/api/skills", "/api/team-members", "/api/tickets", "/api/assignments", "/api/reports", "/api/templates", "/api/recurring-tickets", "/api/priorities", "/api/sla-policies", "/api/labels", "/api/custom-fields", "/api/workflow"];
+
+export const getCurrentProjectId = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : defaultProjectId;
+};
+
+export const setCurrentProjectId = (projectId: number) => {
+  localStorage.setItem(STORAGE_KEY, String(projectId));
+};
+
+// Rewrite project-scoped API paths to the current project's routes
+export const projectUrl = (url: string): string => {
+  const scoped = projectScopedPaths.some(path => url === path || url.startsWith(`${path}/`) || url.startsWith(`${path}?`));
+  return scoped ? url.replace(/^\/api/, `/api/projects/${getCurrentProjectId()}`) : url;
+};
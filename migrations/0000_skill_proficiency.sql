@@ -0,0 +1,11 @@
+-- Skill proficiency levels for team members and minimum levels for tickets
+ALTER TABLE "team_members" ADD COLUMN IF NOT EXISTS "skill_levels" jsonb DEFAULT '{}'::jsonb NOT NULL;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "min_skill_levels" jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+-- Existing members keep every skill they had, at the default level (3)
+UPDATE "team_members"
+SET "skill_levels" = (
+  SELECT COALESCE(jsonb_object_agg(skill, 3), '{}'::jsonb)
+  FROM unnest("skills") AS skill
+)
+WHERE "skill_levels" = '{}'::jsonb;
@@ -0,0 +1,18 @@
+-- Status reasons and status history for time-in-status reporting
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "status_reason" text;
+CREATE TABLE IF NOT EXISTS "ticket_status_periods" (
+  "id" serial PRIMARY KEY,
+  "ticket_id" integer NOT NULL,
+  "status" text NOT NULL,
+  "reason" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "ended_at" timestamp
+);
+
+-- Existing tickets start tracking their current status from when they last changed
+INSERT INTO "ticket_status_periods" ("ticket_id", "status", "started_at")
+SELECT "id", "status", COALESCE("completed_at", "assigned_at", "created_at")
+FROM "tickets"
+WHERE NOT EXISTS (
+  SELECT 1 FROM "ticket_status_periods" WHERE "ticket_status_periods"."ticket_id" = "tickets"."id"
+);
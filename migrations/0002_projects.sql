@@ -0,0 +1,47 @@
+-- Projects with their own member roster, skills and ticket numbering
+CREATE TABLE IF NOT EXISTS "projects" (
+  "id" serial PRIMARY KEY,
+  "key" text NOT NULL CONSTRAINT "projects_key_unique" UNIQUE,
+  "name" text NOT NULL,
+  "skills" text[] NOT NULL,
+  "next_ticket_number" integer DEFAULT 1 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE TABLE IF NOT EXISTS "project_members" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer NOT NULL,
+  "member_id" integer NOT NULL,
+  CONSTRAINT "project_members_pair" UNIQUE ("project_id", "member_id")
+);
+
+-- Existing data moves into the default project
+INSERT INTO "projects" ("id", "key", "name", "skills")
+VALUES (1, 'MAIN', 'Default Project', ARRAY['Frontend', 'Backend', 'Database', 'Design'])
+ON CONFLICT DO NOTHING;
+SELECT setval(pg_get_serial_sequence('projects', 'id'), (SELECT MAX("id") FROM "projects"));
+
+INSERT INTO "project_members" ("project_id", "member_id")
+SELECT 1, "id" FROM "team_members"
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "project_id" integer DEFAULT 1 NOT NULL;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "number" integer;
+
+-- Number existing tickets in creation order
+UPDATE "tickets"
+SET "number" = numbered."number"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "project_id" ORDER BY "id") AS "number"
+  FROM "tickets"
+) AS numbered
+WHERE "tickets"."id" = numbered."id" AND "tickets"."number" IS NULL;
+
+ALTER TABLE "tickets" ALTER COLUMN "number" SET NOT NULL;
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tickets_project_number') THEN
+    ALTER TABLE "tickets" ADD CONSTRAINT "tickets_project_number" UNIQUE ("project_id", "number");
+  END IF;
+END $$;
+
+UPDATE "projects"
+SET "next_ticket_number" = COALESCE((SELECT MAX("number") FROM "tickets" WHERE "project_id" = "projects"."id"), 0) + 1;
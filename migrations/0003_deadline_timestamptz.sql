@@ -0,0 +1,17 @@
+-- Deadlines become timestamps with a time zone. Date-only values meant the end of that day,
+-- anything that doesn't parse falls back to a week after the ticket was created. Converting
+-- through text makes this a no-op on a column that already is a timestamptz.
+CREATE OR REPLACE FUNCTION pg_temp.parse_deadline(value text, created_at timestamp) RETURNS timestamptz AS $$
+BEGIN
+  IF value ~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RETURN (value || ' 23:59:59')::timestamptz;
+  END IF;
+  RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN created_at + interval '7 days';
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE "tickets"
+  ALTER COLUMN "deadline" TYPE timestamptz
+  USING pg_temp.parse_deadline("deadline"::text, "created_at");
@@ -0,0 +1,12 @@
+-- Response SLAs measure the first assignment, recovered from the activity log where possible
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "first_assigned_at" timestamp;
+
+UPDATE "tickets"
+SET "first_assigned_at" = COALESCE(
+  (
+    SELECT MIN("timestamp") FROM "activity_logs"
+    WHERE "activity_logs"."ticket_id" = "tickets"."id" AND "activity_logs"."action" = 'assigned'
+  ),
+  "assigned_at"
+)
+WHERE "first_assigned_at" IS NULL;
@@ -0,0 +1,20 @@
+-- Each project gets its own priority scheme, starting from the former fixed low/medium/high levels
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "priorities" jsonb NOT NULL DEFAULT '[
+  {"key": "low", "label": "Low", "color": "#22c55e", "weight": 1},
+  {"key": "medium", "label": "Medium", "color": "#eab308", "weight": 2},
+  {"key": "high", "label": "High", "color": "#ef4444", "weight": 3}
+]'::jsonb;
+
+-- Priorities outside the scheme were accepted before; keep them usable by adding them as levels
+UPDATE "projects"
+SET "priorities" = "projects"."priorities" || extra."levels"
+FROM (
+  SELECT used."project_id", jsonb_agg(jsonb_build_object(
+    'key', used."priority", 'label', initcap(used."priority"), 'color', '#6b7280', 'weight', 1
+  )) AS "levels"
+  FROM (SELECT DISTINCT "project_id", "priority" FROM "tickets") AS used
+  JOIN "projects" ON "projects"."id" = used."project_id"
+  WHERE NOT "projects"."priorities" @> jsonb_build_array(jsonb_build_object('key', used."priority"))
+  GROUP BY used."project_id"
+) AS extra
+WHERE "projects"."id" = extra."project_id";
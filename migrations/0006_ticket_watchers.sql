@@ -0,0 +1,27 @@
+-- Watchers and the notifications they receive
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "created_by" integer;
+CREATE TABLE IF NOT EXISTS "notifications" (
+  "id" serial PRIMARY KEY,
+  "member_id" integer NOT NULL,
+  "ticket_id" integer NOT NULL,
+  "activity_log_id" integer NOT NULL,
+  "action" text NOT NULL,
+  "read_at" timestamp,
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+CREATE TABLE IF NOT EXISTS "ticket_watchers" (
+  "id" serial PRIMARY KEY,
+  "ticket_id" integer NOT NULL,
+  "member_id" integer NOT NULL,
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  CONSTRAINT "ticket_watchers_pair" UNIQUE ("ticket_id", "member_id")
+);
+
+-- Everyone who has been assigned a ticket watches it, recovered from the activity log
+INSERT INTO "ticket_watchers" ("ticket_id", "member_id")
+SELECT DISTINCT "ticket_id", ("details"->>'memberId')::integer
+FROM "activity_logs"
+WHERE "action" = 'assigned' AND "details"->>'memberId' IS NOT NULL
+UNION
+SELECT "id", "assigned_to" FROM "tickets" WHERE "assigned_to" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "ticket_templates" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer NOT NULL,
+  "name" text NOT NULL,
+  "title" text NOT NULL,
+  "description" text NOT NULL,
+  "skills" text[] NOT NULL,
+  "min_skill_levels" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "priority" text NOT NULL,
+  "label_ids" integer[] DEFAULT '{}' NOT NULL,
+  "custom_fields" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "deadline_business_days" integer,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "ticket_templates_project_name" UNIQUE ("project_id", "name")
+);
+
+-- A template deadline of zero business days was due the moment the ticket was created,
+-- which new tickets refuse; such templates now give one day
+UPDATE "ticket_templates" SET "deadline_business_days" = 1 WHERE "deadline_business_days" = 0;
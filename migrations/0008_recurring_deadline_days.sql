@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "recurring_tickets" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer NOT NULL,
+  "template_id" integer NOT NULL,
+  "schedule" text NOT NULL,
+  "deadline_business_days" integer DEFAULT 1 NOT NULL,
+  "active" boolean DEFAULT true NOT NULL,
+  "next_run_at" timestamp,
+  "last_run_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Recurring tickets defaulted to a deadline of zero business days, due the moment they were created
+ALTER TABLE "recurring_tickets" ALTER COLUMN "deadline_business_days" SET DEFAULT 1;
+UPDATE "recurring_tickets" SET "deadline_business_days" = 1 WHERE "deadline_business_days" = 0;
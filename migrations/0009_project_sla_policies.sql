@@ -0,0 +1,28 @@
+-- SLA policies belong to a project now, each former policy is copied to every project
+-- whose priority scheme has its priority; policies of priorities no project has are dropped
+CREATE TABLE IF NOT EXISTS "sla_policies" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer,
+  "priority" text NOT NULL,
+  "response_minutes" integer NOT NULL,
+  "resolution_minutes" integer NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+ALTER TABLE "sla_policies" DROP CONSTRAINT IF EXISTS "sla_policies_priority_unique";
+ALTER TABLE "sla_policies" ADD COLUMN IF NOT EXISTS "project_id" integer;
+
+INSERT INTO "sla_policies" ("project_id", "priority", "response_minutes", "resolution_minutes", "created_at")
+SELECT "projects"."id", "sla_policies"."priority", "sla_policies"."response_minutes",
+  "sla_policies"."resolution_minutes", "sla_policies"."created_at"
+FROM "sla_policies"
+JOIN "projects" ON "projects"."priorities" @> jsonb_build_array(jsonb_build_object('key', "sla_policies"."priority"))
+WHERE "sla_policies"."project_id" IS NULL;
+
+DELETE FROM "sla_policies" WHERE "project_id" IS NULL;
+
+ALTER TABLE "sla_policies" ALTER COLUMN "project_id" SET NOT NULL;
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'sla_policies_project_priority') THEN
+    ALTER TABLE "sla_policies" ADD CONSTRAINT "sla_policies_project_priority" UNIQUE ("project_id", "priority");
+  END IF;
+END $$;
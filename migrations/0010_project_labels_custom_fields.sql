@@ -0,0 +1,91 @@
+-- Labels and custom field definitions belong to a project now
+CREATE TABLE IF NOT EXISTS "labels" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer,
+  "name" text NOT NULL,
+  "color" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+CREATE TABLE IF NOT EXISTS "custom_field_definitions" (
+  "id" serial PRIMARY KEY,
+  "project_id" integer,
+  "key" text NOT NULL,
+  "label" text NOT NULL,
+  "type" text NOT NULL,
+  "options" text[] DEFAULT '{}' NOT NULL,
+  "required" boolean DEFAULT false NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "label_ids" integer[] DEFAULT '{}' NOT NULL;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "custom_fields" jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+ALTER TABLE "labels" DROP CONSTRAINT IF EXISTS "labels_name_unique";
+ALTER TABLE "labels" ADD COLUMN IF NOT EXISTS "project_id" integer;
+ALTER TABLE "custom_field_definitions" DROP CONSTRAINT IF EXISTS "custom_field_definitions_key_unique";
+ALTER TABLE "custom_field_definitions" ADD COLUMN IF NOT EXISTS "project_id" integer;
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'labels_project_name') THEN
+    ALTER TABLE "labels" ADD CONSTRAINT "labels_project_name" UNIQUE ("project_id", "name");
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'custom_field_definitions_project_key') THEN
+    ALTER TABLE "custom_field_definitions" ADD CONSTRAINT "custom_field_definitions_project_key" UNIQUE ("project_id", "key");
+  END IF;
+END $$;
+
+-- Each former label is copied to every project whose tickets or templates use it,
+-- labels nothing uses go to the default project
+INSERT INTO "labels" ("project_id", "name", "color", "created_at")
+SELECT used."project_id", "labels"."name", "labels"."color", "labels"."created_at"
+FROM "labels"
+JOIN (
+  SELECT "project_id", unnest("label_ids") AS "label_id" FROM "tickets"
+  UNION
+  SELECT "project_id", unnest("label_ids") FROM "ticket_templates"
+) used ON used."label_id" = "labels"."id"
+WHERE "labels"."project_id" IS NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE "labels" SET "project_id" = 1
+WHERE "project_id" IS NULL
+  AND NOT EXISTS (SELECT 1 FROM "tickets" WHERE "labels"."id" = ANY("tickets"."label_ids"))
+  AND NOT EXISTS (SELECT 1 FROM "ticket_templates" WHERE "labels"."id" = ANY("ticket_templates"."label_ids"));
+
+-- Tickets and templates point at their own project's copy
+UPDATE "tickets" SET "label_ids" = ARRAY(
+  SELECT "own"."id"
+  FROM unnest("tickets"."label_ids") WITH ORDINALITY AS "listed"("id", "position")
+  JOIN "labels" "former" ON "former"."id" = "listed"."id"
+  JOIN "labels" "own" ON "own"."project_id" = "tickets"."project_id" AND "own"."name" = "former"."name"
+  ORDER BY "listed"."position"
+)
+WHERE EXISTS (
+  SELECT 1 FROM "labels"
+  WHERE "labels"."id" = ANY("tickets"."label_ids") AND "labels"."project_id" IS DISTINCT FROM "tickets"."project_id"
+);
+
+UPDATE "ticket_templates" SET "label_ids" = ARRAY(
+  SELECT "own"."id"
+  FROM unnest("ticket_templates"."label_ids") WITH ORDINALITY AS "listed"("id", "position")
+  JOIN "labels" "former" ON "former"."id" = "listed"."id"
+  JOIN "labels" "own" ON "own"."project_id" = "ticket_templates"."project_id" AND "own"."name" = "former"."name"
+  ORDER BY "listed"."position"
+)
+WHERE EXISTS (
+  SELECT 1 FROM "labels"
+  WHERE "labels"."id" = ANY("ticket_templates"."label_ids") AND "labels"."project_id" IS DISTINCT FROM "ticket_templates"."project_id"
+);
+
+DELETE FROM "labels" WHERE "project_id" IS NULL;
+ALTER TABLE "labels" ALTER COLUMN "project_id" SET NOT NULL;
+
+-- Former custom fields applied to every ticket, so every project gets a copy
+INSERT INTO "custom_field_definitions" ("project_id", "key", "label", "type", "options", "required", "created_at")
+SELECT "projects"."id", "definitions"."key", "definitions"."label", "definitions"."type",
+  "definitions"."options", "definitions"."required", "definitions"."created_at"
+FROM "custom_field_definitions" "definitions"
+CROSS JOIN "projects"
+WHERE "definitions"."project_id" IS NULL
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "custom_field_definitions" WHERE "project_id" IS NULL;
+ALTER TABLE "custom_field_definitions" ALTER COLUMN "project_id" SET NOT NULL;
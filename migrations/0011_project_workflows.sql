@@ -0,0 +1,2 @@
+-- Projects may follow their own workflow, those without one keep the server's configured workflow
+ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "workflow" jsonb;
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateTeamMembers,
+  selectTeamMember,
+  rankEvaluations,
+  getSkillLevel,
+  isAtCapacity,
+  getAssignmentStrategy,
+  listAssignmentStrategies,
+  skillWeightedStrategy,
+  leastLoadedStrategy,
+  roundRobinStrategy,
+  type AssignmentContext,
+  type AssignmentStrategy,
+} from "./assignment";
+import type { TeamMember } from "@shared/schema";
+
+const DAY_MS = 86_400_000;
+
+// Member working every day, with only the Frontend skill unless overridden
+const member = (id: number, overrides: Partial<TeamMember> = {}): TeamMember => ({
+  id,
+  name: `Member ${id}`,
+  skills: ["Frontend"],
+  skillLevels: {},
+  initials: `M${id}`,
+  maxOpenTickets: null,
+  workingDays: [0, 1, 2, 3, 4, 5, 6],
+  ...overrides,
+});
+
+// Idle team and a Frontend ticket due in a week, unless overridden
+const context = (overrides: Partial<AssignmentContext> = {}): AssignmentContext => ({
+  openTickets: new Map(),
+  workload: new Map(),
+  lastAssignedAt: new Map(),
+  outOfOffice: new Map(),
+  requiredSkills: ["Frontend"],
+  minSkillLevels: {},
+  deadline: new Date(Date.now() + 7 * DAY_MS),
+  requiredMember: null,
+  excludedMembers: [],
+  preferredMembers: [],
+  ...overrides,
+});
+
+const pick = (members: TeamMember[], ticketContext: AssignmentContext, strategy: AssignmentStrategy = skillWeightedStrategy) =>
+  selectTeamMember(evaluateTeamMembers(members, ticketContext, strategy))?.id;
+
+describe("assignment strategies", () => {
+  it("weighs matching skills against workload under skill-weighted", () => {
+    const members = [member(1), member(2, { skills: ["Frontend", "Backend"] })];
+    expect(pick(members, context({ requiredSkills: ["Frontend", "Backend"] }))).toBe(2);
+    // Twice the skills doesn't make up for three times the load
+    expect(pick(members, context({
+      requiredSkills: ["Frontend", "Backend"],
+      workload: new Map([[2, 2]]),
+    }))).toBe(1);
+  });
+
+  it("picks the lightest workload under least-loaded, whatever the skills", () => {
+    const members = [member(1, { skills: ["Frontend", "Backend"] }), member(2)];
+    expect(pick(members, context({ workload: new Map([[1, 1]]) }), leastLoadedStrategy)).toBe(2);
+  });
+
+  it("rotates under round-robin, never-assigned members first", () => {
+    const members = [member(1), member(2), member(3)];
+    const lastAssignedAt = new Map([[1, new Date(2025, 0, 2)], [2, new Date(2025, 0, 1)]]);
+    expect(pick(members, context({ lastAssignedAt }), roundRobinStrategy)).toBe(3);
+    lastAssignedAt.set(3, new Date(2025, 0, 3));
+    expect(pick(members, context({ lastAssignedAt }), roundRobinStrategy)).toBe(2);
+  });
+
+  it("rules out members without a matching skill", () => {
+    const [evaluation] = evaluateTeamMembers([member(1, { skills: ["Backend"] })], context(), leastLoadedStrategy);
+    expect(evaluation.score).toBeNull();
+    expect(evaluation.excludedReason).toBe("Not eligible under the least-loaded strategy");
+    expect(pick([member(1, { skills: ["Backend"] })], context())).toBeUndefined();
+  });
+
+  it("resolves strategies by name, falling back to the default", () => {
+    expect(listAssignmentStrategies().map(strategy => strategy.name))
+      .toEqual(["skill-weighted", "least-loaded", "round-robin"]);
+    expect(getAssignmentStrategy("round-robin")).toBe(roundRobinStrategy);
+    expect(getAssignmentStrategy()).toBe(skillWeightedStrategy);
+    expect(() => getAssignmentStrategy("random")).toThrow("Unknown assignment strategy: random");
+  });
+});
+
+describe("skill proficiency", () => {
+  it("defaults listed skills to level 3 and missing ones to 0", () => {
+    const expert = member(1, { skills: ["Frontend", "Backend"], skillLevels: { Backend: 5 } });
+    expect(getSkillLevel(expert, "Frontend")).toBe(3);
+    expect(getSkillLevel(expert, "Backend")).toBe(5);
+    expect(getSkillLevel(expert, "DevOps")).toBe(0);
+  });
+
+  it("prefers the more proficient member under skill-weighted", () => {
+    const members = [member(1, { skillLevels: { Frontend: 2 } }), member(2, { skillLevels: { Frontend: 4 } })];
+    expect(pick(members, context())).toBe(2);
+  });
+
+  it("rules out members below a minimum level", () => {
+    const members = [member(1, { skillLevels: { Frontend: 5 } }), member(2, { skillLevels: { Frontend: 3 } })];
+    const evaluations = evaluateTeamMembers(members, context({ minSkillLevels: { Frontend: 4 } }), leastLoadedStrategy);
+    expect(evaluations.map(evaluation => evaluation.excludedReason)).toEqual([undefined, "Below the minimum skill level"]);
+    expect(pick(members, context({ minSkillLevels: { Frontend: 4 }, workload: new Map([[1, 5]]) }), leastLoadedStrategy)).toBe(1);
+  });
+});
+
+describe("capacity limits", () => {
+  it("counts open tickets against the member's limit", () => {
+    const capped = member(1, { maxOpenTickets: 2 });
+    expect(isAtCapacity(capped, context({ openTickets: new Map([[1, 1]]) }))).toBe(false);
+    expect(isAtCapacity(capped, context({ openTickets: new Map([[1, 2]]) }))).toBe(true);
+    expect(isAtCapacity(member(2), context({ openTickets: new Map([[2, 50]]) }))).toBe(false);
+  });
+
+  it("passes over members at capacity, even the best scoring one", () => {
+    const members = [member(1, { maxOpenTickets: 1, skillLevels: { Frontend: 5 } }), member(2)];
+    const full = context({ openTickets: new Map([[1, 1]]) });
+    expect(evaluateTeamMembers(members, full, skillWeightedStrategy)[0].excludedReason).toBe("At capacity (1 open tickets)");
+    expect(pick(members, full)).toBe(2);
+    expect(pick(members.slice(0, 1), full)).toBeUndefined();
+  });
+});
+
+describe("assignment constraints", () => {
+  it("gives a pinned ticket to its member only, skipping the skill checks", () => {
+    const members = [member(1), member(2, { skills: ["Backend"] })];
+    const pinned = context({ requiredMember: 2, minSkillLevels: { Frontend: 4 } });
+    const evaluations = evaluateTeamMembers(members, pinned, skillWeightedStrategy);
+    expect(evaluations[0].excludedReason).toBe("Ticket is pinned to another member");
+    expect(evaluations[1].excludedReason).toBeUndefined();
+    expect(pick(members, pinned)).toBe(2);
+  });
+
+  it("still respects the pinned member's capacity", () => {
+    const members = [member(1), member(2, { maxOpenTickets: 1 })];
+    expect(pick(members, context({ requiredMember: 2, openTickets: new Map([[2, 1]]) }))).toBeUndefined();
+  });
+
+  it("never picks an excluded member", () => {
+    const members = [member(1, { skillLevels: { Frontend: 5 } }), member(2)];
+    const evaluations = evaluateTeamMembers(members, context({ excludedMembers: [1] }), skillWeightedStrategy);
+    expect(evaluations[0].excludedReason).toBe("Excluded from this ticket");
+    expect(selectTeamMember(evaluations)?.id).toBe(2);
+  });
+
+  it("ranks eligible preferred members ahead of higher scores", () => {
+    const members = [member(1, { skillLevels: { Frontend: 5 } }), member(2), member(3, { skills: ["Backend"] })];
+    const ranked = rankEvaluations(evaluateTeamMembers(members, context({ preferredMembers: [2, 3] }), skillWeightedStrategy));
+    expect(ranked.map(evaluation => evaluation.member.id)).toEqual([2, 1, 3]);
+    expect(ranked[2].preferred).toBe(true);
+    expect(ranked[2].excludedReason).toBeDefined();
+  });
+});
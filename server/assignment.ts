@@ -0,0 +1,243 @@
+import type { TeamMember, Ticket, OutOfOfficeWindow } from "@shared/schema";
+import { defaultSkillLevel } from "@shared/schema";
+import { assignmentConfig } from "./config";
+import { isAvailableBefore } from "./availability";
+
+// Current state of the team, shared by every ticket being scored
+export interface TeamSnapshot {
+  // Number of open tickets currently assigned to each member
+  openTickets: Map<number, number>;
+  // Priority- and deadline-weighted load of each member's open tickets
+  workload: Map<number, number>;
+  // Time each member last received a ticket
+  lastAssignedAt: Map<number, Date>;
+  // Out-of-office windows per member
+  outOfOffice: Map<number, OutOfOfficeWindow[]>;
+}
+
+// Team state plus the ticket requirements that strategies score members against
+export interface AssignmentContext extends TeamSnapshot {
+  requiredSkills: string[];
+  // Minimum proficiency a member needs for each listed skill
+  minSkillLevels: Record<string, number>;
+  // Ticket deadline members must be available before
+  deadline: Date;
+  // Per-ticket constraints on who may take it
+  requiredMember: number | null;
+  excludedMembers: number[];
+  preferredMembers: number[];
+}
+
+// Combine a team snapshot with the requirements of one ticket
+export function createAssignmentContext(ticket: Ticket, snapshot: TeamSnapshot): AssignmentContext {
+  return {
+    ...snapshot,
+    requiredSkills: ticket.skills,
+    minSkillLevels: ticket.minSkillLevels,
+    deadline: ticket.deadline,
+    requiredMember: ticket.requiredMember,
+    excludedMembers: ticket.excludedMembers,
+    preferredMembers: ticket.preferredMembers,
+  };
+}
+
+// Outcome of scoring one member for a ticket
+export interface MemberEvaluation {
+  member: TeamMember;
+  matchingSkills: string[];
+  openTickets: number;
+  workload: number;
+  // Strategy score, null when the strategy itself rules the member out
+  score: number | null;
+  // Listed as a preferred assignee on the ticket
+  preferred: boolean;
+  // Why the member cannot be picked, if they can't
+  excludedReason?: string;
+}
+
+// A strategy scores each candidate member for a ticket; the highest score wins.
+// Returning null excludes the member from consideration.
+export interface AssignmentStrategy {
+  name: string;
+  description: string;
+  score(member: TeamMember, context: AssignmentContext): number | null;
+}
+
+// Helper to list which of the required skills a member has
+export function getMatchingSkills(member: TeamMember, requiredSkills: string[]): string[] {
+  return requiredSkills.filter(skill => member.skills.includes(skill));
+}
+
+// Proficiency of a member in a skill, 0 if they don't have it
+export function getSkillLevel(member: TeamMember, skill: string): number {
+  if (!member.skills.includes(skill)) return 0;
+  return member.skillLevels[skill] ?? defaultSkillLevel;
+}
+
+// Check whether the member already holds as many open tickets as they may take
+export function isAtCapacity(member: TeamMember, context: AssignmentContext): boolean {
+  if (member.maxOpenTickets === null) return false;
+  return (context.openTickets.get(member.id) || 0) >= member.maxOpenTickets;
+}
+
+// Check the member reaches every minimum level the ticket asks for
+export function meetsMinimumSkillLevels(member: TeamMember, minSkillLevels: Record<string, number>): boolean {
+  return Object.entries(minSkillLevels).every(
+    ([skill, minLevel]) => getSkillLevel(member, skill) >= minLevel
+  );
+}
+
+// Matching skills weighted by proficiency and the inverse of the current workload
+export const skillWeightedStrategy: AssignmentStrategy = {
+  name: "skill-weighted",
+  description: "Prefers members with the most proficiency in the required skills, discounted by current workload",
+  score(member, context) {
+    const matchingSkills = getMatchingSkills(member, context.requiredSkills);
+    if (matchingSkills.length === 0) return null; // Skip if no skill match
+
+    const proficiency = matchingSkills.reduce(
+      (total, skill) => total + getSkillLevel(member, skill),
+      0
+    );
+    const workload = context.workload.get(member.id) || 0;
+    const workloadFactor = 1 / (workload + 1); // +1 to avoid division by zero
+    return proficiency * workloadFactor;
+  },
+};
+
+// Any member with a matching skill, preferring the lightest workload
+export const leastLoadedStrategy: AssignmentStrategy = {
+  name: "least-loaded",
+  description: "Picks the matching member with the lightest workload",
+  score(member, context) {
+    if (getMatchingSkills(member, context.requiredSkills).length === 0) return null;
+
+    const workload = context.workload.get(member.id) || 0;
+    return 1 / (workload + 1);
+  },
+};
+
+// Rotates through matching members, picking whoever was assigned least recently
+export const roundRobinStrategy: AssignmentStrategy = {
+  name: "round-robin",
+  description: "Rotates between matching members, starting with whoever was assigned least recently",
+  score(member, context) {
+    if (getMatchingSkills(member, context.requiredSkills).length === 0) return null;
+
+    // Members that were never assigned score 0, everyone else scores lower
+    const lastAssignedAt = context.lastAssignedAt.get(member.id);
+    return lastAssignedAt ? -lastAssignedAt.getTime() : 0;
+  },
+};
+
+// Registry of available strategies, keyed by name
+const strategies = new Map<string, AssignmentStrategy>();
+
+export function registerAssignmentStrategy(strategy: AssignmentStrategy) {
+  strategies.set(strategy.name, strategy);
+}
+
+export function hasAssignmentStrategy(name: string): boolean {
+  return strategies.has(name);
+}
+
+export function listAssignmentStrategies(): AssignmentStrategy[] {
+  return Array.from(strategies.values());
+}
+
+// Resolve a strategy by name, falling back to the configured default
+export function getAssignmentStrategy(name?: string): AssignmentStrategy {
+  const strategy = strategies.get(name || assignmentConfig.defaultStrategy);
+  if (strategy) return strategy;
+
+  if (name) {
+    throw new Error(`Unknown assignment strategy: ${name}`);
+  }
+
+  console.warn(
+    `Unknown default assignment strategy "${assignmentConfig.defaultStrategy}", using "${skillWeightedStrategy.name}"`,
+  );
+  return skillWeightedStrategy;
+}
+
+// Explain why a member cannot take the ticket, if anything rules them out.
+// A member the ticket is pinned to skips the skill checks but not availability or capacity.
+function getExclusionReason(
+  member: TeamMember,
+  score: number | null,
+  context: AssignmentContext,
+  strategy: AssignmentStrategy,
+): string | undefined {
+  const pinned = context.requiredMember === member.id;
+
+  if (context.requiredMember !== null && !pinned) {
+    return "Ticket is pinned to another member";
+  }
+
+  if (context.excludedMembers.includes(member.id)) {
+    return "Excluded from this ticket";
+  }
+
+  if (!pinned && score === null) {
+    return `Not eligible under the ${strategy.name} strategy`;
+  }
+
+  if (!pinned && !meetsMinimumSkillLevels(member, context.minSkillLevels)) {
+    return "Below the minimum skill level";
+  }
+
+  const windows = context.outOfOffice.get(member.id) || [];
+  if (!isAvailableBefore(member.workingDays, windows, context.deadline)) {
+    return "Unavailable before the deadline";
+  }
+
+  if (isAtCapacity(member, context)) {
+    return `At capacity (${member.maxOpenTickets} open tickets)`;
+  }
+
+  return undefined;
+}
+
+// Score every member under the given strategy, recording why ineligible ones are excluded
+export function evaluateTeamMembers(
+  members: TeamMember[],
+  context: AssignmentContext,
+  strategy: AssignmentStrategy,
+): MemberEvaluation[] {
+  return members.map(member => {
+    const score = strategy.score(member, context);
+
+    return {
+      member,
+      matchingSkills: getMatchingSkills(member, context.requiredSkills),
+      openTickets: context.openTickets.get(member.id) || 0,
+      workload: context.workload.get(member.id) || 0,
+      score,
+      preferred: context.preferredMembers.includes(member.id),
+      excludedReason: getExclusionReason(member, score, context, strategy),
+    };
+  });
+}
+
+// Order evaluations best first: eligible members (preferred ones first) by score, then excluded ones
+export function rankEvaluations(evaluations: MemberEvaluation[]): MemberEvaluation[] {
+  return [...evaluations].sort((a, b) => {
+    if (!a.excludedReason !== !b.excludedReason) {
+      return a.excludedReason ? 1 : -1;
+    }
+    if (a.preferred !== b.preferred) {
+      return a.preferred ? -1 : 1;
+    }
+    return (b.score ?? -Infinity) - (a.score ?? -Infinity) || 0;
+  });
+}
+
+// Pick the best eligible member from a set of evaluations
+export function selectTeamMember(evaluations: MemberEvaluation[]): TeamMember | undefined {
+  const [best] = rankEvaluations(evaluations);
+  return best && !best.excludedReason ? best.member : undefined;
+}
+
+registerAssignmentStrategy(skillWeightedStrategy);
+registerAssignmentStrategy(leastLoadedStrategy);
+registerAssignmentStrategy(roundRobinStrategy);
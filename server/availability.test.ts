@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { findOutOfOfficeWindow, isAvailableBefore, isAvailableOn } from "./availability";
+import type { OutOfOfficeWindow } from "@shared/schema";
+
+const weekdays = [1, 2, 3, 4, 5];
+
+const outOfOffice = (startDate: string, endDate: string): OutOfOfficeWindow =>
+  ({ id: 1, memberId: 1, startDate, endDate, reason: null, createdAt: new Date() });
+
+// Monday 2025-06-02, mid-morning UTC
+const monday = new Date("2025-06-02T09:30:00Z");
+
+describe("isAvailableOn", () => {
+  it("needs a working day outside every out-of-office window", () => {
+    const windows = [outOfOffice("2025-06-03", "2025-06-04")];
+    expect(isAvailableOn(weekdays, windows, monday)).toBe(true);
+    expect(isAvailableOn(weekdays, windows, new Date("2025-06-04T12:00:00Z"))).toBe(false);
+    expect(isAvailableOn(weekdays, windows, new Date("2025-06-07T12:00:00Z"))).toBe(false);
+    expect(findOutOfOfficeWindow(windows, new Date("2025-06-04T23:59:00Z"))).toBe(windows[0]);
+  });
+});
+
+describe("isAvailableBefore", () => {
+  it("finds a free day anywhere up to the deadline, today included", () => {
+    const windows = [outOfOffice("2025-06-02", "2025-06-05")];
+    expect(isAvailableBefore(weekdays, windows, new Date("2025-06-05T17:00:00Z"), monday)).toBe(false);
+    expect(isAvailableBefore(weekdays, windows, new Date("2025-06-06T09:00:00Z"), monday)).toBe(true);
+    expect(isAvailableBefore(weekdays, [], new Date("2025-06-02T10:00:00Z"), monday)).toBe(true);
+  });
+
+  it("skips days the member doesn't work", () => {
+    const saturday = new Date("2025-06-07T09:00:00Z");
+    const sunday = new Date("2025-06-08T17:00:00Z");
+    expect(isAvailableBefore(weekdays, [], sunday, saturday)).toBe(false);
+    expect(isAvailableBefore([0], [], sunday, saturday)).toBe(true);
+  });
+
+  it("only has today left for a deadline that has passed", () => {
+    const lastWeek = new Date("2025-05-26T09:00:00Z");
+    expect(isAvailableBefore(weekdays, [], lastWeek, monday)).toBe(true);
+    expect(isAvailableBefore(weekdays, [outOfOffice("2025-06-02", "2025-06-02")], lastWeek, monday)).toBe(false);
+  });
+
+  it("stops looking a year ahead", () => {
+    const windows = [outOfOffice("2025-06-01", "2026-12-31")];
+    expect(isAvailableBefore(weekdays, windows, new Date("2027-01-04T12:00:00Z"), monday)).toBe(false);
+  });
+});
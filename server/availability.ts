@@ -0,0 +1,52 @@
+import type { OutOfOfficeWindow } from "@shared/schema";
+
+// How far ahead availability is checked when a deadline is far away
+const MAX_LOOKAHEAD_DAYS = 366;
+
+// Calendar day of a date as YYYY-MM-DD, in UTC like the stored date columns
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Find the out-of-office window covering the given day, if any
+export function findOutOfOfficeWindow(
+  windows: OutOfOfficeWindow[],
+  day: Date,
+): OutOfOfficeWindow | undefined {
+  const dayKey = toDayKey(day);
+  return windows.find(window => window.startDate <= dayKey && dayKey <= window.endDate);
+}
+
+// Check whether a member works on the given day and isn't out of office
+export function isAvailableOn(
+  workingDays: number[],
+  windows: OutOfOfficeWindow[],
+  day: Date,
+): boolean {
+  return workingDays.includes(day.getUTCDay()) && !findOutOfOfficeWindow(windows, day);
+}
+
+// Check whether a member has at least one available day between now and the deadline.
+// Deadlines that have already passed only leave today to work with.
+export function isAvailableBefore(
+  workingDays: number[],
+  windows: OutOfOfficeWindow[],
+  deadline: Date,
+  now: Date = new Date(),
+): boolean {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const deadlineTime = deadline.getTime();
+
+  let days = 1;
+  if (deadlineTime > today.getTime()) {
+    days = Math.min(Math.floor((deadlineTime - today.getTime()) / 86_400_000) + 1, MAX_LOOKAHEAD_DAYS);
+  }
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(today);
+    day.setUTCDate(today.getUTCDate() + offset);
+    if (isAvailableOn(workingDays, windows, day)) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,71 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { attachmentConfig } from "./config";
+
+// Where attachment contents live; metadata stays in the database
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Undefined when nothing is stored under the key
+  read(key: string): Promise<Readable | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps blobs as files under a root directory
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async read(key: string): Promise<Readable | undefined> {
+    const file = this.resolve(key);
+    try {
+      await stat(file);
+    } catch {
+      return undefined;
+    }
+    return createReadStream(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  // Keys are generated by the server, but never let one escape the root
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return file;
+  }
+}
+
+// Blob store implementations by name
+const blobStores = new Map<string, () => BlobStore>();
+
+export function registerBlobStore(name: string, create: () => BlobStore) {
+  blobStores.set(name, create);
+}
+
+registerBlobStore("local", () => new LocalBlobStore(attachmentConfig.directory));
+
+let blobStore: BlobStore | undefined;
+
+// The configured blob store, created on first use
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    const create = blobStores.get(attachmentConfig.store);
+    if (!create) {
+      throw new Error(`Unknown attachment store "${attachmentConfig.store}"`);
+    }
+    blobStore = create();
+  }
+  return blobStore;
+}
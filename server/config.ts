@@ -0,0 +1,111 @@
+// Runtime configuration, read once from the environment at startup
+
+// Read an integer environment variable, falling back when unset or invalid
+function parseIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
+
+// Read a comma separated list, falling back when unset
+function parseListEnv(name: string, fallback: string[]): string[] {
+  const value = process.env[name];
+  if (!value) return fallback;
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+// Parse a JSON object of numeric weights, falling back to defaults for anything missing
+function parseWeights<T extends Record<string, number>>(value: string | undefined, defaults: T): T {
+  if (!value) return defaults;
+
+  try {
+    const parsed = JSON.parse(value);
+    const weights: Record<string, number> = { ...defaults };
+    for (const [key, weight] of Object.entries(parsed)) {
+      if (typeof weight === "number" && weight >= 0) {
+        weights[key] = weight;
+      }
+    }
+    return weights as T;
+  } catch (error) {
+    console.warn(`Ignoring invalid weights "${value}":`, error);
+    return defaults;
+  }
+}
+
+// Assignment settings
+export const assignmentConfig = {
+  // Strategy used when a request does not name one explicitly
+  defaultStrategy: process.env.ASSIGNMENT_STRATEGY || "skill-weighted",
+};
+
+// Workload weighting used when scoring members, priority weights come from each project's scheme
+export const workloadConfig = {
+  // Multiplier applied by how close each open ticket's deadline is
+  deadlineWeights: parseWeights(process.env.WORKLOAD_DEADLINE_WEIGHTS, {
+    overdue: 3,
+    day: 2,
+    week: 1.5,
+    later: 1,
+  }),
+};
+
+// Background retry of pending tickets
+export const reconcilerConfig = {
+  // How often pending tickets are retried, 0 disables the periodic tick
+  intervalMs: parseIntEnv("RECONCILE_INTERVAL_MS", 5 * 60 * 1000),
+};
+
+// Ticket workflow
+export const workflowConfig = {
+  // JSON file with a custom workflow definition, the built-in workflow is used when unset
+  definitionFile: process.env.WORKFLOW_FILE,
+};
+
+// Ticket attachments
+export const attachmentConfig = {
+  // Blob store the files are kept in
+  store: process.env.ATTACHMENT_STORE || "local",
+  // Directory used by the local filesystem store
+  directory: process.env.ATTACHMENT_DIR || "uploads",
+  maxFileBytes: parseIntEnv("ATTACHMENT_MAX_BYTES", 10 * 1024 * 1024),
+  // Accepted MIME types, anything that could run script in the browser is left out
+  allowedMimeTypes: parseListEnv("ATTACHMENT_MIME_TYPES", [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "text/plain",
+    "text/csv",
+    "application/json",
+    "application/pdf",
+    "application/zip",
+  ]),
+};
+
+// Ticket trash
+export const trashConfig = {
+  // How long deleted tickets stay restorable before they are purged
+  retentionDays: parseIntEnv("TRASH_RETENTION_DAYS", 30),
+  // How often expired tickets are purged, 0 disables purging
+  purgeIntervalMs: parseIntEnv("TRASH_PURGE_INTERVAL_MS", 60 * 60 * 1000),
+};
+
+// Recurring tickets
+export const recurringConfig = {
+  // How often due recurring tickets are checked for, 0 disables the scheduler
+  intervalMs: parseIntEnv("RECURRING_INTERVAL_MS", 60 * 1000),
+};
+
+// Ticket deadlines
+export const deadlineConfig = {
+  // Accept deadlines that have already passed when tickets are created or updated
+  allowPast: process.env.ALLOW_PAST_DEADLINES === "true",
+};
+
+// SLA tracking
+export const slaConfig = {
+  // A target is at risk once less than this percentage of its time is left
+  atRiskPercent: parseIntEnv("SLA_AT_RISK_PERCENT", 25),
+  // How often open tickets are checked for new breaches, 0 disables the check
+  checkIntervalMs: parseIntEnv("SLA_CHECK_INTERVAL_MS", 60 * 1000),
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { findBlockingPath, findDependencyCycle } from "./dependencies";
+import type { TicketDependency } from "@shared/schema";
+
+// ticketId is blocked by blockedById
+const link = (ticketId: number, blockedById: number): TicketDependency =>
+  ({ id: ticketId * 100 + blockedById, ticketId, blockedById, createdAt: new Date() });
+
+describe("findBlockingPath", () => {
+  it("follows blocked-by links to the target", () => {
+    const links = [link(1, 2), link(2, 3), link(3, 4)];
+    expect(findBlockingPath(links, 1, 4)).toEqual([1, 2, 3, 4]);
+    expect(findBlockingPath(links, 4, 1)).toBeUndefined();
+  });
+});
+
+describe("findDependencyCycle", () => {
+  it("reports the cycle a new link would close", () => {
+    // 1 waits on 2, 2 waits on 3; making 3 wait on 1 closes the loop
+    const links = [link(1, 2), link(2, 3)];
+    expect(findDependencyCycle(links, 3, 1)).toEqual([3, 1, 2, 3]);
+  });
+
+  it("allows links that keep the graph acyclic, including diamonds", () => {
+    const links = [link(1, 2), link(1, 3), link(2, 4)];
+    expect(findDependencyCycle(links, 3, 4)).toBeUndefined();
+    expect(findDependencyCycle(links, 5, 1)).toBeUndefined();
+  });
+
+  it("treats a ticket blocking itself as a cycle", () => {
+    expect(findDependencyCycle([], 1, 1)).toEqual([1, 1]);
+  });
+});
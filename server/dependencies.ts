@@ -0,0 +1,42 @@
+import type { TicketDependency } from "@shared/schema";
+
+// Follow "blocked by" links from one ticket and return the chain of ticket IDs
+// that leads to the target, or undefined when the target is not reachable
+export function findBlockingPath(
+  links: TicketDependency[],
+  from: number,
+  to: number,
+): number[] | undefined {
+  const blockers = new Map<number, number[]>();
+  for (const { ticketId, blockedById } of links) {
+    blockers.set(ticketId, [...(blockers.get(ticketId) || []), blockedById]);
+  }
+
+  const visited = new Set<number>();
+  const stack: number[][] = [[from]];
+
+  while (stack.length > 0) {
+    const path = stack.pop()!;
+    const current = path[path.length - 1];
+    if (current === to) return path;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    for (const next of blockers.get(current) || []) {
+      if (!visited.has(next)) stack.push([...path, next]);
+    }
+  }
+
+  return undefined;
+}
+
+// Check whether making a ticket wait on a blocker would close a cycle. Returns the
+// cycle as ticket IDs, starting and ending with the ticket, when it would.
+export function findDependencyCycle(
+  links: TicketDependency[],
+  ticketId: number,
+  blockedById: number,
+): number[] | undefined {
+  const path = findBlockingPath(links, blockedById, ticketId);
+  return path && [ticketId, ...path];
+}
@@ -0,0 +1,9 @@
+// Raised when a request conflicts with the current state of a ticket
+export class ConflictError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReconciler } from "./reconciler";
+import { startTrashPurge } from "./trash";
+import { startRecurringScheduler } from "./recurring";
+import { startSlaMonitor } from "./sla";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +70,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startReconciler();
+    startTrashPurge();
+    startRecurringScheduler();
+    startSlaMonitor();
   });
 })();
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { solveAssignment, planOptimalAssignments, type TicketCandidates } from "./optimizer";
+import type { MemberEvaluation } from "./assignment";
+import { defaultPriorities, type TeamMember, type Ticket } from "@shared/schema";
+
+// Cheapest total cost over every way of giving each row its own column
+function bruteForceCost(cost: number[][]): number {
+  const columns = cost[0].length;
+  let best = Infinity;
+  const visit = (row: number, used: Set<number>, total: number) => {
+    if (row === cost.length) {
+      best = Math.min(best, total);
+      return;
+    }
+    for (let column = 0; column < columns; column++) {
+      if (used.has(column)) continue;
+      used.add(column);
+      visit(row + 1, used, total + cost[row][column]);
+      used.delete(column);
+    }
+  };
+  visit(0, new Set(), 0);
+  return best;
+}
+
+function totalCost(cost: number[][], columns: number[]): number {
+  return columns.reduce((sum, column, row) => sum + cost[row][column], 0);
+}
+
+// Deterministic pseudo-random numbers so failures can be reproduced
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const member = (id: number): TeamMember => ({ id, name: `Member ${id}` }) as TeamMember;
+
+const ticket = (id: number, priority = "medium", assignedTo: number | null = null): Ticket =>
+  ({ id, title: `Ticket ${id}`, priority, assignedTo }) as Ticket;
+
+const evaluation = (candidate: TeamMember, score: number, excludedReason?: string): MemberEvaluation => ({
+  member: candidate,
+  matchingSkills: [],
+  openTickets: 0,
+  workload: 0,
+  score,
+  preferred: false,
+  excludedReason,
+});
+
+describe("solveAssignment", () => {
+  it("returns nothing for no rows", () => {
+    expect(solveAssignment([])).toEqual([]);
+  });
+
+  it("finds the optimal matching of a known square matrix", () => {
+    const cost = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2],
+    ];
+    const columns = solveAssignment(cost);
+    expect(new Set(columns).size).toBe(3);
+    expect(totalCost(cost, columns)).toBe(5);
+  });
+
+  it("matches brute force on random square and rectangular matrices", () => {
+    const next = random(42);
+    for (let trial = 0; trial < 50; trial++) {
+      const rows = 1 + Math.floor(next() * 5);
+      const columns = rows + Math.floor(next() * 3);
+      const cost = Array.from({ length: rows }, () =>
+        Array.from({ length: columns }, () => Math.round(next() * 20 - 10))
+      );
+
+      const chosen = solveAssignment(cost);
+      expect(new Set(chosen).size).toBe(rows);
+      expect(chosen.every(column => column >= 0 && column < columns)).toBe(true);
+      expect(totalCost(cost, chosen)).toBeCloseTo(bruteForceCost(cost));
+    }
+  });
+});
+
+describe("planOptimalAssignments", () => {
+  const alice = member(1);
+  const bob = member(2);
+
+  it("never gives a member more tickets than their remaining capacity", () => {
+    const candidates: TicketCandidates[] = [1, 2, 3].map(id => ({
+      ticket: ticket(id),
+      evaluations: [evaluation(alice, 10), evaluation(bob, 1)],
+    }));
+
+    const plan = planOptimalAssignments(candidates, [alice, bob], new Map([[1, 1], [2, 1]]), defaultPriorities);
+
+    expect(plan.assignments.filter(({ toMemberId }) => toMemberId === alice.id)).toHaveLength(1);
+    expect(plan.assignments.filter(({ toMemberId }) => toMemberId === bob.id)).toHaveLength(1);
+    expect(plan.unassigned).toEqual([
+      expect.objectContaining({ reason: "Eligible members have no capacity left" }),
+    ]);
+  });
+
+  it("gives a contested slot to the higher priority ticket", () => {
+    const candidates: TicketCandidates[] = [
+      { ticket: ticket(1, "low"), evaluations: [evaluation(alice, 5)] },
+      { ticket: ticket(2, "high"), evaluations: [evaluation(alice, 5)] },
+    ];
+
+    const plan = planOptimalAssignments(candidates, [alice], new Map([[1, 1]]), defaultPriorities);
+
+    expect(plan.assignments.map(({ ticketId }) => ticketId)).toEqual([2]);
+    expect(plan.unassigned.map(({ ticketId }) => ticketId)).toEqual([1]);
+  });
+
+  it("never assigns an excluded member", () => {
+    const candidates: TicketCandidates[] = [
+      { ticket: ticket(1), evaluations: [evaluation(alice, 10, "Excluded"), evaluation(bob, 1)] },
+      { ticket: ticket(2), evaluations: [evaluation(alice, 10, "Excluded")] },
+    ];
+
+    const plan = planOptimalAssignments(candidates, [alice, bob], new Map(), defaultPriorities);
+
+    expect(plan.assignments).toEqual([expect.objectContaining({ ticketId: 1, toMemberId: bob.id })]);
+    expect(plan.unassigned).toEqual([expect.objectContaining({ ticketId: 2, reason: "No eligible team member" })]);
+  });
+
+  it("marks tickets that stay with their assignee as unchanged", () => {
+    const candidates: TicketCandidates[] = [
+      { ticket: ticket(1, "medium", alice.id), evaluations: [evaluation(alice, 10), evaluation(bob, 1)] },
+    ];
+
+    const plan = planOptimalAssignments(candidates, [alice, bob], new Map(), defaultPriorities);
+
+    expect(plan.assignments).toEqual([expect.objectContaining({ toMemberId: alice.id, changed: false })]);
+  });
+});
@@ -0,0 +1,180 @@
+import type { PriorityLevel, TeamMember, Ticket } from "@shared/schema";
+import type { MemberEvaluation } from "./assignment";
+import { getPriorityWeight } from "./workload";
+
+// Candidates for one ticket taking part in the optimization
+export interface TicketCandidates {
+  ticket: Ticket;
+  evaluations: MemberEvaluation[];
+}
+
+export interface PlannedAssignment {
+  ticketId: number;
+  ticketTitle: string;
+  priority: string;
+  fromMemberId: number | null;
+  toMemberId: number;
+  toMemberName: string;
+  score: number | null;
+  changed: boolean;
+}
+
+export interface UnassignedTicket {
+  ticketId: number;
+  ticketTitle: string;
+  reason: string;
+}
+
+export interface AssignmentPlan {
+  assignments: PlannedAssignment[];
+  unassigned: UnassignedTicket[];
+}
+
+// Cost of an impossible pairing; leaving a ticket unassigned always costs less
+const FORBIDDEN = 1e9;
+
+// Solve the rectangular assignment problem (rows <= columns) minimizing total cost.
+// Returns the column chosen for each row. Hungarian algorithm with potentials, O(n^2 m).
+export function solveAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  if (n === 0) return [];
+  const m = cost[0].length;
+
+  // 1-indexed potentials and matching, column 0 is a sentinel
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const rowForColumn = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    rowForColumn[0] = row;
+    let column = 0;
+    const minSlack = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const currentRow = rowForColumn[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+
+        const slack = cost[currentRow - 1][j - 1] - u[currentRow] - v[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          way[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[rowForColumn[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+
+      column = nextColumn;
+    } while (rowForColumn[column] !== 0);
+
+    // Walk the augmenting path back to the sentinel
+    do {
+      const previousColumn = way[column];
+      rowForColumn[column] = rowForColumn[previousColumn];
+      column = previousColumn;
+    } while (column !== 0);
+  }
+
+  const columnForRow = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (rowForColumn[j] !== 0) {
+      columnForRow[rowForColumn[j] - 1] = j - 1;
+    }
+  }
+  return columnForRow;
+}
+
+// Map each eligible member's score for a ticket onto [1, 2], so that any eligible
+// assignment beats leaving the ticket unassigned regardless of the strategy's scale.
+// Preferred members are lifted onto [2, 3] so they win over everyone else.
+function normalizeScores(evaluations: MemberEvaluation[]): Map<number, number> {
+  const eligible = evaluations.filter(({ excludedReason }) => !excludedReason);
+  const scores = eligible.map(({ score }) => score ?? 0);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+
+  return new Map(eligible.map(({ member, score, preferred }) => [
+    member.id,
+    (range > 0 ? 1 + ((score ?? 0) - min) / range : 1) + (preferred ? 1 : 0),
+  ]));
+}
+
+// Compute the globally best member for every ticket at once. Each member offers as many
+// slots as they have remaining capacity; later slots are discounted so load spreads out,
+// and higher priority tickets win contested slots.
+export function planOptimalAssignments(
+  candidates: TicketCandidates[],
+  members: TeamMember[],
+  remainingCapacity: Map<number, number>,
+  priorities: PriorityLevel[],
+): AssignmentPlan {
+  // One column per member slot, then one "leave unassigned" column per ticket
+  const slots: { member: TeamMember; index: number }[] = [];
+  for (const member of members) {
+    const capacity = Math.min(remainingCapacity.get(member.id) ?? candidates.length, candidates.length);
+    for (let index = 0; index < capacity; index++) {
+      slots.push({ member, index });
+    }
+  }
+
+  const cost = candidates.map(({ ticket, evaluations }) => {
+    const utility = normalizeScores(evaluations);
+    const priorityWeight = getPriorityWeight(priorities, ticket.priority);
+
+    const slotCosts = slots.map(({ member, index }) => {
+      const memberUtility = utility.get(member.id);
+      if (memberUtility === undefined) return FORBIDDEN;
+      return -(priorityWeight * memberUtility) / (index + 1);
+    });
+
+    return [...slotCosts, ...candidates.map(() => 0)];
+  });
+
+  const columns = solveAssignment(cost);
+  const plan: AssignmentPlan = { assignments: [], unassigned: [] };
+
+  candidates.forEach(({ ticket, evaluations }, row) => {
+    const slot = columns[row] < slots.length ? slots[columns[row]] : undefined;
+
+    if (!slot || cost[row][columns[row]] >= FORBIDDEN) {
+      const anyEligible = evaluations.some(({ excludedReason }) => !excludedReason);
+      plan.unassigned.push({
+        ticketId: ticket.id,
+        ticketTitle: ticket.title,
+        reason: anyEligible ? "Eligible members have no capacity left" : "No eligible team member",
+      });
+      return;
+    }
+
+    const evaluation = evaluations.find(({ member }) => member.id === slot.member.id);
+    plan.assignments.push({
+      ticketId: ticket.id,
+      ticketTitle: ticket.title,
+      priority: ticket.priority,
+      fromMemberId: ticket.assignedTo,
+      toMemberId: slot.member.id,
+      toMemberName: slot.member.name,
+      score: evaluation?.score ?? null,
+      changed: ticket.assignedTo !== slot.member.id,
+    });
+  });
+
+  return plan;
+}
@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { reconcilerConfig } from "./config";
+import { log } from "./vite";
+import { getWorkflowsByProject } from "./workflow";
+
+// Only one reconciliation runs at a time; triggers arriving meanwhile queue one more run
+let running = false;
+let queuedTrigger: string | null = null;
+
+// Retry automatic assignment for every pending, unassigned ticket
+async function reconcilePendingTickets(trigger: string): Promise<void> {
+  const tickets = await storage.getTickets();
+  const workflowOf = getWorkflowsByProject(await storage.getProjects());
+  const pending = tickets.filter(ticket =>
+    ticket.status === workflowOf(ticket.projectId).initialState && !ticket.assignedTo && ticket.skills.length > 0
+  );
+
+  let assignedCount = 0;
+  for (const ticket of pending) {
+    // One ticket failing doesn't hold up the rest
+    try {
+      const updatedTicket = await storage.assignTicket(ticket.id);
+      if (!updatedTicket?.assignedTo) continue;
+      assignedCount++;
+
+      // Retries that change nothing aren't logged, they would repeat on every tick
+      await storage.addActivityLog({
+        ticketId: ticket.id,
+        action: "assignment_retry",
+        details: {
+          trigger,
+          memberId: updatedTicket.assignedTo
+        }
+      });
+    } catch (error) {
+      console.error(`Error retrying assignment of ticket #${ticket.id}:`, error);
+    }
+  }
+
+  if (pending.length > 0) {
+    log(`retried ${pending.length} pending tickets (${trigger}), assigned ${assignedCount}`, "reconciler");
+  }
+}
+
+// Schedule a reconciliation run, e.g. after a member is added or a ticket completes
+export function triggerReconciliation(trigger: string) {
+  if (running) {
+    queuedTrigger = trigger;
+    return;
+  }
+
+  running = true;
+  reconcilePendingTickets(trigger)
+    .catch(error => console.error("Error reconciling pending tickets:", error))
+    .finally(() => {
+      running = false;
+      if (queuedTrigger) {
+        const nextTrigger = queuedTrigger;
+        queuedTrigger = null;
+        triggerReconciliation(nextTrigger);
+      }
+    });
+}
+
+// Start the periodic tick, returning a function that stops it
+export function startReconciler(): () => void {
+  if (reconcilerConfig.intervalMs <= 0) return () => {};
+
+  const timer = setInterval(() => triggerReconciliation("periodic"), reconcilerConfig.intervalMs);
+  return () => clearInterval(timer);
+}
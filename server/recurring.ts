@@ -0,0 +1,88 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { recurringConfig } from "./config";
+import { log } from "./vite";
+import { parseCronSchedule, getNextOccurrence } from "@shared/schedule";
+import { businessDaysFrom } from "@shared/templates";
+import type { RecurringTicket } from "@shared/schema";
+
+// Only one check runs at a time within this process
+let running = false;
+
+// Create the ticket for a definition's due occurrence. Missed occurrences, e.g. while the
+// server was down, collapse into this one and the schedule continues from now.
+async function runRecurringTicket(definition: RecurringTicket, now: Date): Promise<boolean> {
+  const occurrence = definition.nextRunAt!;
+  const schedule = parseCronSchedule(definition.schedule);
+  const nextRunAt = schedule ? getNextOccurrence(schedule, now) : null;
+
+  // Claim the occurrence before creating anything so a restart or a second process can't repeat it
+  if (!(await storage.claimRecurringRun(definition.id, occurrence, nextRunAt))) return false;
+
+  const template = await storage.getTicketTemplate(definition.templateId);
+  if (!template) {
+    console.warn(`Recurring ticket #${definition.id} refers to missing template #${definition.templateId}`);
+    return false;
+  }
+
+  const ticket = await storage.createTicket({
+    title: `${template.title} (${format(occurrence, "yyyy-MM-dd")})`,
+    description: template.description,
+    skills: template.skills,
+    minSkillLevels: template.minSkillLevels,
+    priority: template.priority,
+    labelIds: template.labelIds,
+    customFields: template.customFields,
+    deadline: businessDaysFrom(definition.deadlineBusinessDays, occurrence),
+  }, definition.projectId);
+
+  await storage.addActivityLog({
+    ticketId: ticket.id,
+    action: "created_on_schedule",
+    details: { recurringTicketId: definition.id, occurrence: occurrence.toISOString() }
+  });
+
+  if (ticket.skills.length > 0) {
+    await storage.assignTicket(ticket.id);
+  }
+
+  return true;
+}
+
+// Create tickets for every recurring definition that is due
+export async function runDueRecurringTickets(now: Date = new Date()): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const due = await storage.getDueRecurringTickets(now);
+    let createdCount = 0;
+
+    for (const definition of due) {
+      try {
+        if (await runRecurringTicket(definition, now)) createdCount++;
+      } catch (error) {
+        console.error(`Error creating recurring ticket #${definition.id}:`, error);
+      }
+    }
+
+    if (createdCount > 0) {
+      log(`created ${createdCount} recurring tickets`, "recurring");
+    }
+  } finally {
+    running = false;
+  }
+}
+
+// Start the periodic check, returning a function that stops it
+export function startRecurringScheduler(): () => void {
+  if (recurringConfig.intervalMs <= 0) return () => {};
+
+  const tick = () => {
+    runDueRecurringTickets().catch(error => console.error("Error running recurring tickets:", error));
+  };
+
+  tick();
+  const timer = setInterval(tick, recurringConfig.intervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,119 +1,1945 @@
-import type { Express, Request, Response } from "express";
+import { Router, type Express, type NextFunction, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertTicketSchema, insertTeamMemberSchema, availableSkills } from "@shared/schema";
+import { getAssignmentStrategy, hasAssignmentStrategy, listAssignmentStrategies } from "./assignment";
+import { findOutOfOfficeWindow } from "./availability";
+import { getTicketLoad } from "./workload";
+import { triggerReconciliation } from "./reconciler";
+import { getSubtaskProgress } from "./subtasks";
+import { getBlobStore } from "./blobs";
+import { getTicketSlaStatus } from "./sla";
+import { attachmentConfig, trashConfig, deadlineConfig } from "./config";
+import { isOpen, getTimeInStatus, getProjectWorkflow, getWorkflowsByProject } from "./workflow";
+import { ConflictError } from "./errors";
+import { getWorkflowState } from "@shared/workflow";
+import { buildCustomFieldsSchema, buildPrioritySchema, extendTicketSchema } from "@shared/fields";
+import { getTemplateDefaults, resolveDeadline } from "@shared/templates";
+import {
+  insertTicketSchema,
+  insertTeamMemberSchema,
+  insertOutOfOfficeWindowSchema,
+  insertTicketDependencySchema,
+  insertCommentSchema,
+  insertTicketWatcherSchema,
+  insertLabelSchema,
+  insertCustomFieldDefinitionSchema,
+  insertProjectSchema,
+  insertTicketTemplateSchema,
+  insertRecurringTicketSchema,
+  insertSlaPolicySchema,
+  deadlineSchema,
+  upcomingDeadlineSchema,
+  defaultProjectId,
+  defaultPriorities,
+  type InsertTicket,
+  type InsertTicketTemplate,
+  type Project,
+} from "@shared/schema";
 import { z } from "zod";
 
+// Attachment uploads are held in memory until they are written to the blob store
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: attachmentConfig.maxFileBytes, files: 1 },
+  fileFilter: (req, file, callback) => {
+    callback(null, attachmentConfig.allowedMimeTypes.includes(file.mimetype));
+  },
+}).single("file");
+
+// Deadlines set on tickets, which may have to lie in the future
+const ticketDeadlineSchema = deadlineConfig.allowPast ? deadlineSchema : upcomingDeadlineSchema;
+
+// Check that every label ID refers to one of the project's labels
+async function labelsExist(projectId: number, labelIds: number[]): Promise<boolean> {
+  const known = new Set((await storage.getLabels(projectId)).map(label => label.id));
+  return labelIds.every(labelId => known.has(labelId));
+}
+
+// Project the request is scoped to, set by the project middleware
+function currentProject(res: Response): Project {
+  return res.locals.project;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
-  // Get all available skills
-  app.get("/api/skills", async (req: Request, res: Response) => {
-    res.json(availableSkills);
+  // Routes scoped to a project, mounted under /api/projects/:projectId and,
+  // for the default project, directly under /api
+  const router = Router({ mergeParams: true });
+
+  // Members and tickets of other projects are not visible through this project
+  router.use("/team-members/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const roster = await storage.getTeamMembers(currentProject(res).id);
+      if (!roster.some(member => member.id === id)) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.use("/tickets/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const ticket = await storage.getTicket(id, { includeDeleted: true });
+      if (ticket && ticket.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      // Trashed tickets can be looked at and restored, nothing else
+      if (ticket?.deletedAt && req.method !== "GET" && req.path !== "/restore") {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get the project's skills
+  router.get("/skills", async (req: Request, res: Response) => {
+    res.json(currentProject(res).skills);
+  });
+
+  // Get the project's priority levels, lowest first
+  router.get("/priorities", async (req: Request, res: Response) => {
+    res.json(currentProject(res).priorities);
+  });
+
+  // Get the workflow the project's tickets follow
+  router.get("/workflow", async (req: Request, res: Response) => {
+    res.json(getProjectWorkflow(currentProject(res)));
+  });
+
+  // Get registered assignment strategies
+  app.get("/api/assignment-strategies", async (req: Request, res: Response) => {
+    res.json(listAssignmentStrategies().map(({ name, description }) => ({ name, description })));
+  });
+
+  // Label routes
+  router.use("/labels/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const label = await storage.getLabel(id);
+      if (label && label.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/labels", async (req: Request, res: Response) => {
+    try {
+      const labels = await storage.getLabels(currentProject(res).id);
+      res.json(labels);
+    } catch (error) {
+      console.error("Error fetching labels:", error);
+      res.status(500).json({ message: "Failed to fetch labels" });
+    }
+  });
+
+  router.post("/labels", async (req: Request, res: Response) => {
+    try {
+      const result = insertLabelSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid label data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const label = await storage.createLabel(result.data, currentProject(res).id);
+      res.status(201).json(label);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating label:", error);
+      res.status(500).json({ message: "Failed to create label" });
+    }
+  });
+
+  router.patch("/labels/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid label ID" });
+      }
+      
+      const result = insertLabelSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid label data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const label = await storage.updateLabel(id, result.data);
+      
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      
+      res.json(label);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating label:", error);
+      res.status(500).json({ message: "Failed to update label" });
+    }
+  });
+
+  router.delete("/labels/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid label ID" });
+      }
+      
+      const success = await storage.deleteLabel(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      res.status(500).json({ message: "Failed to delete label" });
+    }
+  });
+
+  // Custom field definition routes
+  router.use("/custom-fields/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const definition = await storage.getCustomFieldDefinition(id);
+      if (definition && definition.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/custom-fields", async (req: Request, res: Response) => {
+    try {
+      const definitions = await storage.getCustomFieldDefinitions(currentProject(res).id);
+      res.json(definitions);
+    } catch (error) {
+      console.error("Error fetching custom fields:", error);
+      res.status(500).json({ message: "Failed to fetch custom fields" });
+    }
+  });
+
+  router.post("/custom-fields", async (req: Request, res: Response) => {
+    try {
+      const result = insertCustomFieldDefinitionSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid custom field data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const definition = await storage.createCustomFieldDefinition(result.data, currentProject(res).id);
+      res.status(201).json(definition);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating custom field:", error);
+      res.status(500).json({ message: "Failed to create custom field" });
+    }
+  });
+
+  router.patch("/custom-fields/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid custom field ID" });
+      }
+      
+      // Key and type cannot change
+      const schema = z.object({
+        label: z.string().trim().min(1).optional(),
+        options: z.array(z.string().trim().min(1)).optional(),
+        required: z.boolean().optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid custom field data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const definition = await storage.updateCustomFieldDefinition(id, result.data);
+      
+      if (!definition) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      
+      res.json(definition);
+    } catch (error) {
+      console.error("Error updating custom field:", error);
+      res.status(500).json({ message: "Failed to update custom field" });
+    }
+  });
+
+  router.delete("/custom-fields/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid custom field ID" });
+      }
+      
+      const success = await storage.deleteCustomFieldDefinition(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting custom field:", error);
+      res.status(500).json({ message: "Failed to delete custom field" });
+    }
+  });
+
+  // SLA policy routes, one policy per priority of the project
+  router.get("/sla-policies", async (req: Request, res: Response) => {
+    try {
+      const policies = await storage.getSlaPolicies(currentProject(res).id);
+      res.json(policies);
+    } catch (error) {
+      console.error("Error fetching SLA policies:", error);
+      res.status(500).json({ message: "Failed to fetch SLA policies" });
+    }
+  });
+
+  // Create or replace the policy for a priority
+  router.put("/sla-policies/:priority", async (req: Request, res: Response) => {
+    try {
+      const result = insertSlaPolicySchema.safeParse({ ...req.body, priority: req.params.priority });
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid SLA policy data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      if (!currentProject(res).priorities.some(level => level.key === result.data.priority)) {
+        return res.status(400).json({ message: "Unknown priority for this project" });
+      }
+      
+      const policy = await storage.setSlaPolicy(result.data, currentProject(res).id);
+      res.json(policy);
+    } catch (error) {
+      console.error("Error saving SLA policy:", error);
+      res.status(500).json({ message: "Failed to save SLA policy" });
+    }
+  });
+
+  router.delete("/sla-policies/:priority", async (req: Request, res: Response) => {
+    try {
+      const success = await storage.deleteSlaPolicy(currentProject(res).id, req.params.priority);
+      
+      if (!success) {
+        return res.status(404).json({ message: "SLA policy not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting SLA policy:", error);
+      res.status(500).json({ message: "Failed to delete SLA policy" });
+    }
   });
 
   // Team Member routes
-  app.get("/api/team-members", async (req: Request, res: Response) => {
+  router.get("/team-members", async (req: Request, res: Response) => {
+    try {
+      const teamMembers = await storage.getTeamMembers(currentProject(res).id);
+      
+      // Add assigned ticket count, workload and current absence for each member.
+      // Load counts tickets from every project the member works on.
+      const tickets = await storage.getTickets();
+      const projects = await storage.getProjects();
+      const prioritiesByProject = new Map(projects.map(project => [project.id, project.priorities]));
+      const workflowOf = getWorkflowsByProject(projects);
+      const outOfOffice = await storage.getOutOfOfficeWindows();
+      const now = new Date();
+      const result = await Promise.all(teamMembers.map(async (member) => {
+        const openTickets = tickets.filter(
+          ticket => ticket.assignedTo === member.id && isOpen(ticket.status, workflowOf(ticket.projectId))
+        );
+        const currentAbsence = findOutOfOfficeWindow(
+          outOfOffice.filter(window => window.memberId === member.id),
+          now
+        );
+        
+        return {
+          ...member,
+          assignedTicketCount: openTickets.length,
+          workload: openTickets.reduce((total, ticket) => total + getTicketLoad(ticket, prioritiesByProject.get(ticket.projectId) ?? defaultPriorities, now), 0),
+          awayUntil: currentAbsence?.endDate ?? null
+        };
+      }));
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      res.status(500).json({ message: "Failed to fetch team members" });
+    }
+  });
+
+  router.get("/team-members/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      const teamMember = await storage.getTeamMember(id);
+      
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      res.json(teamMember);
+    } catch (error) {
+      console.error("Error fetching team member:", error);
+      res.status(500).json({ message: "Failed to fetch team member" });
+    }
+  });
+
+  router.post("/team-members", async (req: Request, res: Response) => {
+    try {
+      const result = insertTeamMemberSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid team member data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const unknownSkills = result.data.skills.filter(skill => !currentProject(res).skills.includes(skill));
+      if (unknownSkills.length > 0) {
+        return res.status(400).json({ message: `Unknown skills for this project: ${unknownSkills.join(", ")}` });
+      }
+      
+      const teamMember = await storage.createTeamMember(result.data, currentProject(res).id);
+      
+      // A new member may be able to take tickets nobody could before
+      triggerReconciliation("member_created");
+      
+      res.status(201).json(teamMember);
+    } catch (error) {
+      console.error("Error creating team member:", error);
+      res.status(500).json({ message: "Failed to create team member" });
+    }
+  });
+
+  router.patch("/team-members/:id", async (req: Request, res: Response) => {
     try {
-      const teamMembers = await storage.getTeamMembers();
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      // Validate the updates
+      const updateSchema = insertTeamMemberSchema.partial();
+      const result = updateSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid update data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      // Members of several projects may have the skills of any of them
+      if (result.data.skills) {
+        const knownSkills = (await storage.getMemberProjects(id)).flatMap(project => project.skills);
+        const unknownSkills = result.data.skills.filter(skill => !knownSkills.includes(skill));
+        if (unknownSkills.length > 0) {
+          return res.status(400).json({ message: `Unknown skills for this member's projects: ${unknownSkills.join(", ")}` });
+        }
+      }
+      
+      const updatedMember = await storage.updateTeamMember(id, result.data);
+      
+      if (!updatedMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      // Changed skills, capacity or working days may free the member up
+      triggerReconciliation("member_updated");
+      
+      res.json(updatedMember);
+    } catch (error) {
+      console.error("Error updating team member:", error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  // Team member availability routes
+  router.get("/team-members/:id/availability", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      const teamMember = await storage.getTeamMember(id);
+      
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const outOfOffice = await storage.getOutOfOfficeWindows(id);
+      res.json({
+        workingDays: teamMember.workingDays,
+        outOfOffice
+      });
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  router.post("/team-members/:id/out-of-office", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      const teamMember = await storage.getTeamMember(id);
+      
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      const result = insertOutOfOfficeWindowSchema.safeParse({ ...req.body, memberId: id });
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid out-of-office data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const window = await storage.addOutOfOfficeWindow(result.data);
+      res.status(201).json(window);
+    } catch (error) {
+      console.error("Error adding out-of-office window:", error);
+      res.status(500).json({ message: "Failed to add out-of-office window" });
+    }
+  });
+
+  router.delete("/team-members/:id/out-of-office/:windowId", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const windowId = parseInt(req.params.windowId);
+      
+      if (isNaN(id) || isNaN(windowId)) {
+        return res.status(400).json({ message: "Invalid team member or window ID" });
+      }
+      
+      const windows = await storage.getOutOfOfficeWindows(id);
+      
+      if (!windows.some(window => window.id === windowId)) {
+        return res.status(404).json({ message: "Out-of-office window not found" });
+      }
+      
+      await storage.deleteOutOfOfficeWindow(windowId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting out-of-office window:", error);
+      res.status(500).json({ message: "Failed to delete out-of-office window" });
+    }
+  });
+
+  // Notifications about tickets the member watches
+  router.get("/team-members/:id/notifications", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      const notifications = await storage.getNotifications(id, { unreadOnly: req.query.unread === "true" });
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  router.post("/team-members/:id/notifications/read", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
+      }
+      
+      const marked = await storage.markAllNotificationsRead(id);
+      res.json({ marked });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  router.post("/team-members/:id/notifications/:notificationId/read", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const notificationId = parseInt(req.params.notificationId);
+      
+      if (isNaN(id) || isNaN(notificationId)) {
+        return res.status(400).json({ message: "Invalid team member or notification ID" });
+      }
+      
+      const notifications = await storage.getNotifications(id);
+      
+      if (!notifications.some(notification => notification.id === notificationId)) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      
+      const notification = await storage.markNotificationRead(notificationId);
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  // Ticket routes
+  router.get("/tickets", async (req: Request, res: Response) => {
+    try {
+      // Tickets in the trash are only listed when asked for
+      const tickets = await storage.getTickets(currentProject(res).id, {
+        includeDeleted: req.query.includeDeleted === "true"
+      });
+      
+      // Filter by status if provided
+      const status = req.query.status as string;
+      let filteredTickets = tickets;
+      
+      if (status && status !== "all") {
+        console.log("Filtering tickets by status:", status);
+        
+        // Check if this is a comma-separated list of statuses
+        if (status.includes(',')) {
+          const statusList = status.split(',').map(s => s.trim());
+          console.log("Status list:", statusList);
+          
+          filteredTickets = tickets.filter(ticket => {
+            const result = statusList.includes(ticket.status);
+            console.log(`Ticket ${ticket.id} has status ${ticket.status}, include: ${result}`);
+            return result;
+          });
+        } else {
+          filteredTickets = tickets.filter(ticket => ticket.status === status);
+        }
+        
+        console.log(`Filtered ${tickets.length} tickets to ${filteredTickets.length} tickets`);
+      }
+      
+      // Filter by label names if provided, keeping tickets with any of them
+      const labelFilter = req.query.labels as string;
+      
+      if (labelFilter) {
+        const names = labelFilter.split(',').map(name => name.trim().toLowerCase());
+        const labelIds = (await storage.getLabels(currentProject(res).id))
+          .filter(label => names.includes(label.name.toLowerCase()))
+          .map(label => label.id);
+        
+        filteredTickets = filteredTickets.filter(ticket =>
+          ticket.labelIds.some(labelId => labelIds.includes(labelId))
+        );
+      }
+      
+      // Add team member details for assigned tickets and where each stands against its SLA
+      const slaPolicies = await storage.getSlaPolicies(currentProject(res).id);
+      const now = new Date();
+      const result = await Promise.all(filteredTickets.map(async (ticket) => {
+        let assignedMember = null;
+        
+        if (ticket.assignedTo) {
+          assignedMember = await storage.getTeamMember(ticket.assignedTo);
+        }
+        
+        return {
+          ...ticket,
+          assignedMember,
+          sla: getTicketSlaStatus(ticket, slaPolicies, now)
+        };
+      }));
+      
+      // Sort tickets by creation date (newest first)
+      result.sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching tickets:", error);
+      res.status(500).json({ message: "Failed to fetch tickets" });
+    }
+  });
+
+  // List the project's deleted tickets, most recently deleted first
+  router.get("/tickets/trash", async (req: Request, res: Response) => {
+    try {
+      const deletedTickets = await storage.getDeletedTickets(currentProject(res).id);
+      const purgeAfterMs = trashConfig.retentionDays * 24 * 60 * 60 * 1000;
+      
+      res.json(deletedTickets.map(ticket => ({
+        ...ticket,
+        purgeAt: new Date(ticket.deletedAt!.getTime() + purgeAfterMs)
+      })));
+    } catch (error) {
+      console.error("Error fetching deleted tickets:", error);
+      res.status(500).json({ message: "Failed to fetch deleted tickets" });
+    }
+  });
+
+  router.get("/tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      // Get assigned team member if any
+      let assignedMember = null;
+      if (ticket.assignedTo) {
+        assignedMember = await storage.getTeamMember(ticket.assignedTo);
+      }
+      
+      // Get activity logs and time spent in each status
+      const activityLogs = await storage.getActivityLogs(id);
+      const timeInStatus = getTimeInStatus(await storage.getStatusPeriods(id));
+      
+      // Get subtasks and the progress they add up to
+      const subtasks = await storage.getSubtasks(id);
+      
+      res.json({
+        ...ticket,
+        assignedMember,
+        activityLogs,
+        timeInStatus,
+        subtasks,
+        progress: getSubtaskProgress(subtasks, getProjectWorkflow(currentProject(res))),
+        sla: getTicketSlaStatus(ticket, await storage.getSlaPolicies(ticket.projectId))
+      });
+    } catch (error) {
+      console.error("Error fetching ticket:", error);
+      res.status(500).json({ message: "Failed to fetch ticket" });
+    }
+  });
+
+  // Check a ticket's parent, skills, labels, creator and member constraints against the
+  // current project, returning what is wrong with them
+  async function findTicketProblem(res: Response, ticket: Partial<InsertTicket>): Promise<string | undefined> {
+    if (ticket.parentId != null && (await storage.getTicket(ticket.parentId))?.projectId !== currentProject(res).id) {
+      return "Parent ticket not found";
+    }
+    
+    const unknownSkills = (ticket.skills ?? []).filter(skill => !currentProject(res).skills.includes(skill));
+    if (unknownSkills.length > 0) {
+      return `Unknown skills for this project: ${unknownSkills.join(", ")}`;
+    }
+    
+    if (ticket.labelIds && !(await labelsExist(currentProject(res).id, ticket.labelIds))) {
+      return "Unknown label";
+    }
+    
+    if (ticket.createdBy != null && !(await storage.getTeamMember(ticket.createdBy))) {
+      return "Creator not found";
+    }
+    
+    const constrainedMembers = [...(ticket.excludedMembers ?? []), ...(ticket.preferredMembers ?? [])];
+    if (ticket.requiredMember != null) {
+      constrainedMembers.push(ticket.requiredMember);
+    }
+    if (constrainedMembers.length > 0) {
+      const roster = new Set((await storage.getTeamMembers(currentProject(res).id)).map(member => member.id));
+      const unknownMembers = constrainedMembers.filter(memberId => !roster.has(memberId));
+      if (unknownMembers.length > 0) {
+        return `Unknown team members for this project: ${Array.from(new Set(unknownMembers)).join(", ")}`;
+      }
+    }
+    
+    if (ticket.requiredMember != null && ticket.excludedMembers?.includes(ticket.requiredMember)) {
+      return "The required member can't also be excluded";
+    }
+  }
+
+  // Validate a new ticket for the current project, create it and try to assign it
+  async function createProjectTicket(res: Response, data: unknown) {
+    // Custom field values are validated against the current definitions
+    const ticketSchema = extendTicketSchema(await storage.getCustomFieldDefinitions(currentProject(res).id), {
+      allowPastDeadline: deadlineConfig.allowPast,
+      priorities: currentProject(res).priorities
+    });
+    const result = ticketSchema.safeParse(data);
+    
+    if (!result.success) {
+      return res.status(400).json({ 
+        message: "Invalid ticket data", 
+        errors: result.error.formErrors.fieldErrors 
+      });
+    }
+    
+    const ticket = result.data;
+    
+    const problem = await findTicketProblem(res, ticket);
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+    
+    // Create the ticket
+    const createdTicket = await storage.createTicket(ticket, currentProject(res).id);
+    
+    // If no assignedTo but skills provided, attempt automatic assignment
+    if (!ticket.assignedTo && ticket.skills.length > 0) {
+      const updatedTicket = await storage.assignTicket(createdTicket.id);
+      if (updatedTicket) {
+        return res.status(201).json(updatedTicket);
+      }
+    }
+    
+    res.status(201).json(createdTicket);
+  }
+
+  router.post("/tickets", async (req: Request, res: Response) => {
+    try {
+      await createProjectTicket(res, req.body);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating ticket:", error);
+      res.status(500).json({ message: "Failed to create ticket" });
+    }
+  });
+
+  // Ticket template routes
+  router.use("/templates/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const template = await storage.getTicketTemplate(id);
+      if (template && template.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Check a template's skills, priority, labels and custom field values, returning what is wrong with them
+  async function findTemplateProblem(res: Response, template: Partial<InsertTicketTemplate>): Promise<string | undefined> {
+    const unknownSkills = (template.skills ?? []).filter(skill => !currentProject(res).skills.includes(skill));
+    if (unknownSkills.length > 0) {
+      return `Unknown skills for this project: ${unknownSkills.join(", ")}`;
+    }
+    
+    if (template.priority !== undefined && !currentProject(res).priorities.some(level => level.key === template.priority)) {
+      return `Unknown priority for this project: ${template.priority}`;
+    }
+    
+    if (template.labelIds && !(await labelsExist(currentProject(res).id, template.labelIds))) {
+      return "Unknown label";
+    }
+    
+    // Required fields may be left for whoever creates the ticket
+    if (template.customFields) {
+      const fieldsSchema = buildCustomFieldsSchema(await storage.getCustomFieldDefinitions(currentProject(res).id)).partial();
+      if (!fieldsSchema.safeParse(template.customFields).success) {
+        return "Invalid custom field values";
+      }
+    }
+  }
+
+  router.get("/templates", async (req: Request, res: Response) => {
+    try {
+      const templates = await storage.getTicketTemplates(currentProject(res).id);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching ticket templates:", error);
+      res.status(500).json({ message: "Failed to fetch ticket templates" });
+    }
+  });
+
+  router.get("/templates/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const template = await storage.getTicketTemplate(id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      console.error("Error fetching ticket template:", error);
+      res.status(500).json({ message: "Failed to fetch ticket template" });
+    }
+  });
+
+  router.post("/templates", async (req: Request, res: Response) => {
+    try {
+      const result = insertTicketTemplateSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid template data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const problem = await findTemplateProblem(res, result.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const template = await storage.createTicketTemplate(result.data, currentProject(res).id);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating ticket template:", error);
+      res.status(500).json({ message: "Failed to create ticket template" });
+    }
+  });
+
+  router.patch("/templates/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const result = insertTicketTemplateSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid template data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const problem = await findTemplateProblem(res, result.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const template = await storage.updateTicketTemplate(id, result.data);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating ticket template:", error);
+      res.status(500).json({ message: "Failed to update ticket template" });
+    }
+  });
+
+  router.delete("/templates/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const success = await storage.deleteTicketTemplate(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error deleting ticket template:", error);
+      res.status(500).json({ message: "Failed to delete ticket template" });
+    }
+  });
+
+  // Create a ticket from a template. Any ticket field in the body overrides the template's,
+  // and the deadline may be relative, e.g. "+3" for three business days from today.
+  router.post("/templates/:id/tickets", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid template ID" });
+      }
+      
+      const template = await storage.getTicketTemplate(id);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      // The deadline is resolved first and checked along with the rest of the ticket
+      const result = insertTicketSchema.partial().extend({ deadline: z.string().optional() }).safeParse(req.body ?? {});
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid ticket data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const overrides = result.data;
+      await createProjectTicket(res, {
+        ...getTemplateDefaults(template),
+        ...overrides,
+        ...(overrides.deadline !== undefined && { deadline: resolveDeadline(overrides.deadline) }),
+        customFields: { ...template.customFields, ...overrides.customFields },
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating ticket from template:", error);
+      res.status(500).json({ message: "Failed to create ticket from template" });
+    }
+  });
+
+  // Recurring ticket routes
+  router.use("/recurring-tickets/:id", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return next();
+      
+      const definition = await storage.getRecurringTicket(id);
+      if (definition && definition.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Recurring ticket not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/recurring-tickets", async (req: Request, res: Response) => {
+    try {
+      const definitions = await storage.getRecurringTickets(currentProject(res).id);
+      res.json(definitions);
+    } catch (error) {
+      console.error("Error fetching recurring tickets:", error);
+      res.status(500).json({ message: "Failed to fetch recurring tickets" });
+    }
+  });
+
+  router.get("/recurring-tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid recurring ticket ID" });
+      }
+      
+      const definition = await storage.getRecurringTicket(id);
+      
+      if (!definition) {
+        return res.status(404).json({ message: "Recurring ticket not found" });
+      }
+      
+      res.json(definition);
+    } catch (error) {
+      console.error("Error fetching recurring ticket:", error);
+      res.status(500).json({ message: "Failed to fetch recurring ticket" });
+    }
+  });
+
+  router.post("/recurring-tickets", async (req: Request, res: Response) => {
+    try {
+      const result = insertRecurringTicketSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid recurring ticket data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const template = await storage.getTicketTemplate(result.data.templateId);
+      if (template?.projectId !== currentProject(res).id) {
+        return res.status(400).json({ message: "Template not found" });
+      }
+      
+      const definition = await storage.createRecurringTicket(result.data, currentProject(res).id);
+      res.status(201).json(definition);
+    } catch (error) {
+      console.error("Error creating recurring ticket:", error);
+      res.status(500).json({ message: "Failed to create recurring ticket" });
+    }
+  });
+
+  router.patch("/recurring-tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid recurring ticket ID" });
+      }
+      
+      const result = insertRecurringTicketSchema.partial().safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid recurring ticket data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      if (result.data.templateId !== undefined) {
+        const template = await storage.getTicketTemplate(result.data.templateId);
+        if (template?.projectId !== currentProject(res).id) {
+          return res.status(400).json({ message: "Template not found" });
+        }
+      }
+      
+      const definition = await storage.updateRecurringTicket(id, result.data);
+      
+      if (!definition) {
+        return res.status(404).json({ message: "Recurring ticket not found" });
+      }
+      
+      res.json(definition);
+    } catch (error) {
+      console.error("Error updating recurring ticket:", error);
+      res.status(500).json({ message: "Failed to update recurring ticket" });
+    }
+  });
+
+  router.delete("/recurring-tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid recurring ticket ID" });
+      }
+      
+      const success = await storage.deleteRecurringTicket(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Recurring ticket not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting recurring ticket:", error);
+      res.status(500).json({ message: "Failed to delete recurring ticket" });
+    }
+  });
+
+  router.patch("/tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      // Validate the updates. Who filed the ticket doesn't change, and assignment goes
+      // through /assign so its roster, capacity and lock checks can't be skipped.
+      const updateSchema = insertTicketSchema.omit({ createdBy: true, assignedTo: true }).partial().extend({
+        deadline: ticketDeadlineSchema.optional(),
+        priority: buildPrioritySchema(currentProject(res).priorities).optional()
+      });
+      const result = updateSchema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid update data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const problem = await findTicketProblem(res, result.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      // The required member can't be excluded, whichever of the two the update changes
+      const requiredMember = result.data.requiredMember !== undefined ? result.data.requiredMember : ticket.requiredMember;
+      if (requiredMember != null && (result.data.excludedMembers ?? ticket.excludedMembers).includes(requiredMember)) {
+        return res.status(400).json({ message: "The required member can't also be excluded" });
+      }
+      
+      // Custom field updates are merged into the stored values, then checked as a whole.
+      // A null value clears the field.
+      if (result.data.customFields) {
+        const customFields = Object.fromEntries(
+          Object.entries({ ...ticket.customFields, ...result.data.customFields }).filter(([, value]) => value !== null)
+        );
+        const fieldsResult = buildCustomFieldsSchema(await storage.getCustomFieldDefinitions(currentProject(res).id)).safeParse(customFields);
+        
+        if (!fieldsResult.success) {
+          return res.status(400).json({ 
+            message: "Invalid update data", 
+            errors: { customFields: fieldsResult.error.formErrors.fieldErrors } 
+          });
+        }
+        
+        result.data.customFields = fieldsResult.data;
+      }
+      
+      const updatedTicket = await storage.updateTicket(id, result.data);
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating ticket:", error);
+      res.status(500).json({ message: "Failed to update ticket" });
+    }
+  });
+
+  router.delete("/tickets/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      // The ticket goes to the trash, its attachments are removed when it is purged
+      const success = await storage.deleteTicket(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting ticket:", error);
+      res.status(500).json({ message: "Failed to delete ticket" });
+    }
+  });
+
+  router.post("/tickets/:id/restore", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const restoredTicket = await storage.restoreTicket(id);
+      
+      if (!restoredTicket) {
+        return res.status(404).json({ message: "Deleted ticket not found" });
+      }
+      
+      res.json(restoredTicket);
+    } catch (error) {
+      console.error("Error restoring ticket:", error);
+      res.status(500).json({ message: "Failed to restore ticket" });
+    }
+  });
+
+  // Ticket assignment routes
+  router.post("/tickets/:id/assign", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      // Validate memberId, strategy and force flag if provided
+      const schema = z.object({
+        memberId: z.number().optional(),
+        force: z.boolean().optional(),
+        strategy: z.string().optional().refine(
+          (name) => !name || hasAssignmentStrategy(name),
+          { message: "Unknown assignment strategy" }
+        ),
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const { memberId, strategy, force } = result.data;
+      const updatedTicket = await storage.assignTicket(id, memberId, { strategy, force });
+      
+      if (!updatedTicket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error assigning ticket:", error);
+      res.status(500).json({ message: "Failed to assign ticket" });
+    }
+  });
+
+  // Explain how auto-assignment would rank the team for a ticket, without assigning
+  router.get("/tickets/:id/assignment-candidates", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const strategy = req.query.strategy as string | undefined;
+      
+      if (strategy && !hasAssignmentStrategy(strategy)) {
+        return res.status(400).json({ message: "Unknown assignment strategy" });
+      }
+      
+      const candidates = await storage.getAssignmentCandidates(id, strategy);
+      
+      if (!candidates) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      let rank = 0;
+      res.json({
+        strategy: getAssignmentStrategy(strategy).name,
+        candidates: candidates.map(({ member, matchingSkills, openTickets, workload, score, preferred, excludedReason }) => ({
+          member,
+          rank: excludedReason ? null : ++rank,
+          matchingSkills,
+          openTickets,
+          workload,
+          score,
+          preferred,
+          excludedReason: excludedReason ?? null
+        }))
+      });
+    } catch (error) {
+      console.error("Error fetching assignment candidates:", error);
+      res.status(500).json({ message: "Failed to fetch assignment candidates" });
+    }
+  });
+
+  router.post("/tickets/:id/complete", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const updatedTicket = await storage.completeTicket(id, { force: req.body?.force === true });
+      
+      if (!updatedTicket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      // The assignee now has room for a pending ticket
+      triggerReconciliation("ticket_completed");
+      
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error completing ticket:", error);
+      res.status(500).json({ message: "Failed to complete ticket" });
+    }
+  });
+
+  router.post("/tickets/:id/reopen", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const updatedTicket = await storage.reopenTicket(id);
+      
+      if (!updatedTicket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error reopening ticket:", error);
+      res.status(500).json({ message: "Failed to reopen ticket" });
+    }
+  });
+
+  // Compute a globally optimal assignment of open tickets, applying it only on request
+  router.post("/assignments/optimize", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        includeAssigned: z.boolean().optional(),
+        apply: z.boolean().optional(),
+        strategy: z.string().optional().refine(
+          (name) => !name || hasAssignmentStrategy(name),
+          { message: "Unknown assignment strategy" }
+        ),
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const { includeAssigned, strategy } = result.data;
+      const apply = result.data.apply ?? req.query.apply === "true";
+      const plan = await storage.planAssignments({ projectId: currentProject(res).id, includeAssigned, strategy });
+      
+      if (apply) {
+        await storage.applyAssignmentPlan(plan);
+      }
+      
+      res.json({ applied: apply, ...plan });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error optimizing assignments:", error);
+      res.status(500).json({ message: "Failed to optimize assignments" });
+    }
+  });
+
+  // Move a ticket to a status allowed by the workflow, with an optional reason
+  async function changeTicketStatus(req: Request, res: Response, status?: string) {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const schema = z.object({
+        status: z.string().min(1),
+        reason: z.string().trim().min(1).optional(),
+        force: z.boolean().optional()
+      });
+      
+      const result = schema.safeParse({ ...req.body, ...(status && { status }) });
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const projectWorkflow = getProjectWorkflow(currentProject(res));
+      const targetState = getWorkflowState(projectWorkflow, result.data.status);
+      
+      if (targetState?.requiresReason && !result.data.reason) {
+        return res.status(400).json({
+          message: "Invalid request data",
+          errors: { reason: [`A reason is required to move a ticket to ${targetState.label}`] }
+        });
+      }
+      
+      const updatedTicket = await storage.transitionTicket(id, result.data.status, result.data.reason, {
+        force: result.data.force
+      });
+      
+      if (!updatedTicket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      if (!isOpen(updatedTicket.status, projectWorkflow)) {
+        triggerReconciliation("ticket_completed");
+      } else if (updatedTicket.status === projectWorkflow.initialState) {
+        triggerReconciliation("ticket_requeued");
+      }
+      
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing ticket status:", error);
+      res.status(500).json({ message: "Failed to change ticket status" });
+    }
+  }
+
+  // Move a ticket to another status allowed by the workflow
+  router.post("/tickets/:id/transition", (req: Request, res: Response) => changeTicketStatus(req, res));
+
+  // Shortcuts for the built-in working statuses
+  router.post("/tickets/:id/start", (req: Request, res: Response) => changeTicketStatus(req, res, "in_progress"));
+  router.post("/tickets/:id/block", (req: Request, res: Response) => changeTicketStatus(req, res, "blocked"));
+  router.post("/tickets/:id/hold", (req: Request, res: Response) => changeTicketStatus(req, res, "on_hold"));
+
+  // Subtasks of a ticket with the parent's progress
+  router.get("/tickets/:id/subtasks", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const subtasks = await storage.getSubtasks(id);
+      res.json({ subtasks, progress: getSubtaskProgress(subtasks, getProjectWorkflow(currentProject(res))) });
+    } catch (error) {
+      console.error("Error fetching subtasks:", error);
+      res.status(500).json({ message: "Failed to fetch subtasks" });
+    }
+  });
+
+  // Split a ticket into subtasks, each auto-assigned by its own skills.
+  // Description, deadline, priority and custom field values default to the parent's.
+  router.post("/tickets/:id/subtasks", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const parent = await storage.getTicket(id);
+      
+      if (!parent) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const schema = z.object({
+        subtasks: z.array(
+          insertTicketSchema
+            .omit({ parentId: true })
+            .extend({ deadline: ticketDeadlineSchema })
+            .partial({ description: true, deadline: true, priority: true })
+        ).min(1)
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid subtask data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      // Each subtask is checked as a whole once the parent's values are filled in. A new
+      // deadline was checked above, an inherited one may already have passed.
+      const subtaskSchema = extendTicketSchema(await storage.getCustomFieldDefinitions(currentProject(res).id), {
+        allowPastDeadline: true,
+        priorities: currentProject(res).priorities
+      }).omit({ parentId: true });
+      
+      const subtasks: InsertTicket[] = [];
+      for (const subtask of result.data.subtasks) {
+        const subtaskResult = subtaskSchema.safeParse({
+          ...subtask,
+          description: subtask.description ?? parent.description,
+          deadline: subtask.deadline ?? parent.deadline,
+          priority: subtask.priority ?? parent.priority,
+          customFields: subtask.customFields ?? parent.customFields
+        });
+        
+        if (!subtaskResult.success) {
+          return res.status(400).json({ 
+            message: "Invalid subtask data", 
+            errors: subtaskResult.error.formErrors.fieldErrors 
+          });
+        }
+        
+        const problem = await findTicketProblem(res, subtaskResult.data);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+        
+        subtasks.push(subtaskResult.data);
+      }
+      
+      const created = await storage.createSubtasks(id, subtasks);
+      
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating subtasks:", error);
+      res.status(500).json({ message: "Failed to create subtasks" });
+    }
+  });
+
+  // Tickets blocking this one and tickets it blocks
+  router.get("/tickets/:id/dependencies", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const links = await storage.getTicketDependencies(id);
+      const ticketsById = new Map((await storage.getTickets(ticket.projectId)).map(t => [t.id, t]));
+      
+      res.json({
+        blockedBy: links
+          .filter(link => link.ticketId === id)
+          .map(link => ({ id: link.id, ticket: ticketsById.get(link.blockedById) })),
+        blocks: links
+          .filter(link => link.blockedById === id)
+          .map(link => ({ id: link.id, ticket: ticketsById.get(link.ticketId) })),
+        openBlockers: links.filter(link =>
+          link.ticketId === id && isOpen(ticketsById.get(link.blockedById)?.status ?? "", getProjectWorkflow(currentProject(res)))
+        ).length
+      });
+    } catch (error) {
+      console.error("Error fetching ticket dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch ticket dependencies" });
+    }
+  });
+
+  // Link a ticket to another, either as blocked by it or as blocking it
+  router.post("/tickets/:id/dependencies", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const schema = z.object({
+        type: z.enum(["blocked_by", "blocks"]),
+        ticketId: z.number().int()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const { type, ticketId } = result.data;
+      const linkResult = insertTicketDependencySchema.safeParse(
+        type === "blocked_by" ? { ticketId: id, blockedById: ticketId } : { ticketId, blockedById: id }
+      );
+      
+      if (!linkResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid dependency", 
+          errors: linkResult.error.formErrors.fieldErrors 
+        });
+      }
+      
+      // Both tickets have to belong to this project
+      const other = await storage.getTicket(ticketId);
+      
+      if (!other || other.projectId !== currentProject(res).id) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const dependency = await storage.addTicketDependency(linkResult.data);
+      
+      if (!dependency) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      res.status(201).json(dependency);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error adding ticket dependency:", error);
+      res.status(500).json({ message: "Failed to add ticket dependency" });
+    }
+  });
+
+  router.delete("/tickets/:id/dependencies/:dependencyId", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const dependencyId = parseInt(req.params.dependencyId);
+      
+      if (isNaN(id) || isNaN(dependencyId)) {
+        return res.status(400).json({ message: "Invalid ticket or dependency ID" });
+      }
+      
+      const links = await storage.getTicketDependencies(id);
+      
+      if (!links.some(link => link.id === dependencyId)) {
+        return res.status(404).json({ message: "Dependency not found" });
+      }
+      
+      await storage.removeTicketDependency(dependencyId);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing ticket dependency:", error);
+      res.status(500).json({ message: "Failed to remove ticket dependency" });
+    }
+  });
+
+  // Time spent in each status by one ticket
+  router.get("/tickets/:id/time-in-status", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const periods = await storage.getStatusPeriods(id);
+      res.json({ periods, totals: getTimeInStatus(periods) });
+    } catch (error) {
+      console.error("Error fetching time in status:", error);
+      res.status(500).json({ message: "Failed to fetch time in status" });
+    }
+  });
+
+  // Time spent in each status across the project's tickets, with the average per ticket that visited it
+  router.get("/reports/time-in-status", async (req: Request, res: Response) => {
+    try {
+      const projectTicketIds = new Set((await storage.getTickets(currentProject(res).id)).map(ticket => ticket.id));
+      const periods = (await storage.getStatusPeriods()).filter(period => projectTicketIds.has(period.ticketId));
+      const now = new Date();
+      
+      const byTicket = new Map<number, typeof periods>();
+      for (const period of periods) {
+        byTicket.set(period.ticketId, [...(byTicket.get(period.ticketId) || []), period]);
+      }
+      
+      const report = new Map<string, { status: string; totalMs: number; tickets: number }>();
+      for (const ticketPeriods of Array.from(byTicket.values())) {
+        for (const [status, ms] of Object.entries(getTimeInStatus(ticketPeriods, now))) {
+          const entry = report.get(status) || { status, totalMs: 0, tickets: 0 };
+          entry.totalMs += ms;
+          entry.tickets += 1;
+          report.set(status, entry);
+        }
+      }
+      
+      res.json(Array.from(report.values()).map(entry => ({
+        ...entry,
+        averageMs: Math.round(entry.totalMs / entry.tickets)
+      })));
+    } catch (error) {
+      console.error("Error building time in status report:", error);
+      res.status(500).json({ message: "Failed to build time in status report" });
+    }
+  });
+
+  // Comment routes
+  router.get("/tickets/:id/comments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      
+      const comments = await storage.getComments(id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  router.post("/tickets/:id/comments", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
       
-      // Add assigned ticket count for each member
-      const tickets = await storage.getTickets();
-      const result = await Promise.all(teamMembers.map(async (member) => {
-        const assignedCount = tickets.filter(
-          ticket => ticket.assignedTo === member.id && ticket.status !== "completed"
-        ).length;
-        
-        return {
-          ...member,
-          assignedTicketCount: assignedCount
-        };
-      }));
+      const result = insertCommentSchema.safeParse({ ...req.body, ticketId: id });
       
-      res.json(result);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid comment data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      if (!(await storage.getTeamMember(result.data.authorId))) {
+        return res.status(400).json({ message: "Author not found" });
+      }
+      
+      const comment = await storage.addComment(result.data);
+      res.status(201).json(comment);
     } catch (error) {
-      console.error("Error fetching team members:", error);
-      res.status(500).json({ message: "Failed to fetch team members" });
+      console.error("Error adding comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
     }
   });
 
-  app.get("/api/team-members/:id", async (req: Request, res: Response) => {
+  router.patch("/tickets/:id/comments/:commentId", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid team member ID" });
+      if (isNaN(id) || isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid ticket or comment ID" });
       }
       
-      const teamMember = await storage.getTeamMember(id);
+      const comment = await storage.getComment(commentId);
       
-      if (!teamMember) {
-        return res.status(404).json({ message: "Team member not found" });
+      if (!comment || comment.ticketId !== id) {
+        return res.status(404).json({ message: "Comment not found" });
       }
       
-      res.json(teamMember);
+      const result = insertCommentSchema.pick({ body: true }).safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid comment data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
+      }
+      
+      const updatedComment = await storage.updateComment(commentId, result.data.body);
+      res.json(updatedComment);
     } catch (error) {
-      console.error("Error fetching team member:", error);
-      res.status(500).json({ message: "Failed to fetch team member" });
+      console.error("Error updating comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
     }
   });
 
-  // Ticket routes
-  app.get("/api/tickets", async (req: Request, res: Response) => {
+  router.delete("/tickets/:id/comments/:commentId", async (req: Request, res: Response) => {
     try {
-      const tickets = await storage.getTickets();
-      
-      // Filter by status if provided
-      const status = req.query.status as string;
-      let filteredTickets = tickets;
+      const id = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
       
-      if (status && status !== "all") {
-        console.log("Filtering tickets by status:", status);
-        
-        // Check if this is a comma-separated list of statuses
-        if (status.includes(',')) {
-          const statusList = status.split(',').map(s => s.trim());
-          console.log("Status list:", statusList);
-          
-          filteredTickets = tickets.filter(ticket => {
-            const result = statusList.includes(ticket.status);
-            console.log(`Ticket ${ticket.id} has status ${ticket.status}, include: ${result}`);
-            return result;
-          });
-        } else {
-          filteredTickets = tickets.filter(ticket => ticket.status === status);
-        }
-        
-        console.log(`Filtered ${tickets.length} tickets to ${filteredTickets.length} tickets`);
+      if (isNaN(id) || isNaN(commentId)) {
+        return res.status(400).json({ message: "Invalid ticket or comment ID" });
       }
       
-      // Add team member details for assigned tickets
-      const result = await Promise.all(filteredTickets.map(async (ticket) => {
-        let assignedMember = null;
-        
-        if (ticket.assignedTo) {
-          assignedMember = await storage.getTeamMember(ticket.assignedTo);
-        }
-        
-        return {
-          ...ticket,
-          assignedMember
-        };
-      }));
+      const comment = await storage.getComment(commentId);
       
-      // Sort tickets by creation date (newest first)
-      result.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
+      if (!comment || comment.ticketId !== id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
       
-      res.json(result);
+      await storage.deleteComment(commentId);
+      res.status(204).end();
     } catch (error) {
-      console.error("Error fetching tickets:", error);
-      res.status(500).json({ message: "Failed to fetch tickets" });
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
     }
   });
 
-  app.get("/api/tickets/:id", async (req: Request, res: Response) => {
+  // Attachment routes
+  router.get("/tickets/:id/attachments", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -127,58 +1953,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Ticket not found" });
       }
       
-      // Get assigned team member if any
-      let assignedMember = null;
-      if (ticket.assignedTo) {
-        assignedMember = await storage.getTeamMember(ticket.assignedTo);
+      const ticketAttachments = await storage.getAttachments(id);
+      res.json(ticketAttachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Upload one file as multipart/form-data in the "file" field
+  router.post("/tickets/:id/attachments", (req: Request, res: Response) => {
+    upload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          return uploadError.code === "LIMIT_FILE_SIZE"
+            ? res.status(413).json({ message: `Files may be at most ${attachmentConfig.maxFileBytes} bytes` })
+            : res.status(400).json({ message: uploadError.message });
+        }
+        if (uploadError) throw uploadError;
+        
+        const id = parseInt(req.params.id);
+        
+        if (isNaN(id)) {
+          return res.status(400).json({ message: "Invalid ticket ID" });
+        }
+        
+        const ticket = await storage.getTicket(id);
+        
+        if (!ticket) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
+        
+        // Files of other types are dropped by the filter and arrive as no file
+        if (!req.file) {
+          return res.status(415).json({
+            message: `Attach a file of one of these types: ${attachmentConfig.allowedMimeTypes.join(", ")}`
+          });
+        }
+        
+        const storageKey = `${id}/${randomUUID()}`;
+        await getBlobStore().put(storageKey, req.file.buffer);
+        
+        try {
+          const attachment = await storage.addAttachment({
+            ticketId: id,
+            fileName: req.file.originalname,
+            mimeType: req.file.mimetype,
+            size: req.file.size,
+            storageKey
+          });
+          res.status(201).json(attachment);
+        } catch (error) {
+          await getBlobStore().delete(storageKey);
+          throw error;
+        }
+      } catch (error) {
+        console.error("Error uploading attachment:", error);
+        res.status(500).json({ message: "Failed to upload attachment" });
       }
+    });
+  });
+
+  // Download an attachment, ?inline=true serves images for display instead
+  router.get("/tickets/:id/attachments/:attachmentId/download", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
       
-      // Get activity logs
-      const activityLogs = await storage.getActivityLogs(id);
+      if (isNaN(id) || isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid ticket or attachment ID" });
+      }
       
-      res.json({
-        ...ticket,
-        assignedMember,
-        activityLogs
+      const attachment = await storage.getAttachment(attachmentId);
+      
+      if (!attachment || attachment.ticketId !== id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const stream = await getBlobStore().read(attachment.storageKey);
+      
+      if (!stream) {
+        return res.status(404).json({ message: "Attachment contents not found" });
+      }
+      
+      const inline = req.query.inline === "true" && attachment.mimeType.startsWith("image/");
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Length", attachment.size);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (inline) {
+        res.setHeader("Content-Disposition", "inline");
+      } else {
+        res.attachment(attachment.fileName);
+      }
+      
+      stream.on("error", (error) => {
+        console.error("Error streaming attachment:", error);
+        res.destroy(error);
       });
+      stream.pipe(res);
     } catch (error) {
-      console.error("Error fetching ticket:", error);
-      res.status(500).json({ message: "Failed to fetch ticket" });
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
     }
   });
 
-  app.post("/api/tickets", async (req: Request, res: Response) => {
+  router.delete("/tickets/:id/attachments/:attachmentId", async (req: Request, res: Response) => {
     try {
-      const result = insertTicketSchema.safeParse(req.body);
+      const id = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
       
-      if (!result.success) {
-        return res.status(400).json({ 
-          message: "Invalid ticket data", 
-          errors: result.error.formErrors.fieldErrors 
-        });
+      if (isNaN(id) || isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid ticket or attachment ID" });
       }
       
-      const ticket = result.data;
+      const attachment = await storage.getAttachment(attachmentId);
       
-      // Create the ticket
-      const createdTicket = await storage.createTicket(ticket);
+      if (!attachment || attachment.ticketId !== id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
       
-      // If no assignedTo but skills provided, attempt automatic assignment
-      if (!ticket.assignedTo && ticket.skills.length > 0) {
-        const updatedTicket = await storage.assignTicket(createdTicket.id);
-        if (updatedTicket) {
-          return res.status(201).json(updatedTicket);
-        }
+      await storage.deleteAttachment(attachmentId);
+      await getBlobStore().delete(attachment.storageKey);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Watcher routes
+  router.get("/tickets/:id/watchers", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ticket ID" });
+      }
+      
+      const ticket = await storage.getTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
       }
       
-      res.status(201).json(createdTicket);
+      const watchers = await storage.getWatchers(id);
+      res.json(watchers);
     } catch (error) {
-      console.error("Error creating ticket:", error);
-      res.status(500).json({ message: "Failed to create ticket" });
+      console.error("Error fetching watchers:", error);
+      res.status(500).json({ message: "Failed to fetch watchers" });
     }
   });
 
-  app.patch("/api/tickets/:id", async (req: Request, res: Response) => {
+  router.post("/tickets/:id/watchers", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -192,48 +2119,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Ticket not found" });
       }
       
-      // Validate the updates
-      const updateSchema = insertTicketSchema.partial();
-      const result = updateSchema.safeParse(req.body);
+      const result = insertTicketWatcherSchema.safeParse(req.body);
       
       if (!result.success) {
         return res.status(400).json({ 
-          message: "Invalid update data", 
+          message: "Invalid watcher data", 
           errors: result.error.formErrors.fieldErrors 
         });
       }
       
-      const updatedTicket = await storage.updateTicket(id, result.data);
-      res.json(updatedTicket);
+      // Only members of the ticket's project can follow it
+      const roster = await storage.getTeamMembers(ticket.projectId);
+      if (!roster.some(member => member.id === result.data.memberId)) {
+        return res.status(400).json({ message: "Team member not found in this project" });
+      }
+      
+      const watcher = await storage.addWatcher(id, result.data.memberId);
+      res.status(201).json(watcher);
     } catch (error) {
-      console.error("Error updating ticket:", error);
-      res.status(500).json({ message: "Failed to update ticket" });
+      console.error("Error adding watcher:", error);
+      res.status(500).json({ message: "Failed to add watcher" });
     }
   });
 
-  app.delete("/api/tickets/:id", async (req: Request, res: Response) => {
+  router.delete("/tickets/:id/watchers/:memberId", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ticket ID" });
+      if (isNaN(id) || isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid ticket or team member ID" });
       }
       
-      const success = await storage.deleteTicket(id);
-      
-      if (!success) {
-        return res.status(404).json({ message: "Ticket not found" });
+      if (!(await storage.removeWatcher(id, memberId))) {
+        return res.status(404).json({ message: "Watcher not found" });
       }
       
       res.status(204).end();
     } catch (error) {
-      console.error("Error deleting ticket:", error);
-      res.status(500).json({ message: "Failed to delete ticket" });
+      console.error("Error removing watcher:", error);
+      res.status(500).json({ message: "Failed to remove watcher" });
     }
   });
 
-  // Ticket assignment routes
-  app.post("/api/tickets/:id/assign", async (req: Request, res: Response) => {
+  // Activity log routes
+  router.get("/tickets/:id/activity", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -241,92 +2171,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid ticket ID" });
       }
       
-      // Validate memberId if provided
-      const schema = z.object({
-        memberId: z.number().optional()
-      });
-      
-      const result = schema.safeParse(req.body);
+      const activityLogs = await storage.getActivityLogs(id);
+      res.json(activityLogs);
+    } catch (error) {
+      console.error("Error fetching activity logs:", error);
+      res.status(500).json({ message: "Failed to fetch activity logs" });
+    }
+  });
+
+  // Project routes
+  app.get("/api/projects", async (req: Request, res: Response) => {
+    try {
+      const projects = await storage.getProjects();
+      res.json(projects);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ message: "Failed to fetch projects" });
+    }
+  });
+
+  app.post("/api/projects", async (req: Request, res: Response) => {
+    try {
+      const result = insertProjectSchema.safeParse(req.body);
       
       if (!result.success) {
         return res.status(400).json({ 
-          message: "Invalid request data", 
+          message: "Invalid project data", 
           errors: result.error.formErrors.fieldErrors 
         });
       }
       
-      const { memberId } = result.data;
-      const updatedTicket = await storage.assignTicket(id, memberId);
-      
-      if (!updatedTicket) {
-        return res.status(404).json({ message: "Ticket not found" });
-      }
-      
-      res.json(updatedTicket);
+      const project = await storage.createProject(result.data);
+      res.status(201).json(project);
     } catch (error) {
-      console.error("Error assigning ticket:", error);
-      res.status(500).json({ message: "Failed to assign ticket" });
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating project:", error);
+      res.status(500).json({ message: "Failed to create project" });
     }
   });
 
-  app.post("/api/tickets/:id/complete", async (req: Request, res: Response) => {
+  // Resolve the project named in the URL for the routes below
+  const resolveProject = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const id = parseInt(req.params.id);
+      const projectId = parseInt(req.params.projectId);
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ticket ID" });
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Invalid project ID" });
       }
       
-      const updatedTicket = await storage.completeTicket(id);
+      const project = await storage.getProject(projectId);
       
-      if (!updatedTicket) {
-        return res.status(404).json({ message: "Ticket not found" });
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      res.json(updatedTicket);
+      res.locals.project = project;
+      next();
     } catch (error) {
-      console.error("Error completing ticket:", error);
-      res.status(500).json({ message: "Failed to complete ticket" });
+      next(error);
     }
+  };
+
+  app.get("/api/projects/:projectId", resolveProject, async (req: Request, res: Response) => {
+    res.json(currentProject(res));
   });
 
-  app.post("/api/tickets/:id/reopen", async (req: Request, res: Response) => {
+  app.patch("/api/projects/:projectId", resolveProject, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
+      const result = insertProjectSchema.partial().safeParse(req.body);
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ticket ID" });
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid project data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
       }
       
-      const updatedTicket = await storage.reopenTicket(id);
+      const project = await storage.updateProject(currentProject(res).id, result.data);
+      res.json(project);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating project:", error);
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+
+  // Add an existing team member to the project's roster
+  app.post("/api/projects/:projectId/members", resolveProject, async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        memberId: z.number().int()
+      });
       
-      if (!updatedTicket) {
-        return res.status(404).json({ message: "Ticket not found" });
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid request data", 
+          errors: result.error.formErrors.fieldErrors 
+        });
       }
       
-      res.json(updatedTicket);
+      const member = await storage.getTeamMember(result.data.memberId);
+      
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      await storage.addProjectMember(currentProject(res).id, member.id);
+      
+      // The project's pending tickets may now have someone to go to
+      triggerReconciliation("project_member_added");
+      
+      res.status(201).json(member);
     } catch (error) {
-      console.error("Error reopening ticket:", error);
-      res.status(500).json({ message: "Failed to reopen ticket" });
+      console.error("Error adding project member:", error);
+      res.status(500).json({ message: "Failed to add project member" });
     }
   });
 
-  // Activity log routes
-  app.get("/api/tickets/:id/activity", async (req: Request, res: Response) => {
+  app.delete("/api/projects/:projectId/members/:memberId", resolveProject, async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
       
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid ticket ID" });
+      if (isNaN(memberId)) {
+        return res.status(400).json({ message: "Invalid team member ID" });
       }
       
-      const activityLogs = await storage.getActivityLogs(id);
-      res.json(activityLogs);
+      const success = await storage.removeProjectMember(currentProject(res).id, memberId);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      
+      // Their open tickets were put back in the queue for someone else
+      triggerReconciliation("project_member_removed");
+      
+      res.status(204).end();
     } catch (error) {
-      console.error("Error fetching activity logs:", error);
-      res.status(500).json({ message: "Failed to fetch activity logs" });
+      console.error("Error removing project member:", error);
+      res.status(500).json({ message: "Failed to remove project member" });
     }
   });
 
+  // Project-scoped routes, and the same routes for the default project without a prefix
+  app.use("/api/projects/:projectId", resolveProject, router);
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    req.params.projectId = String(defaultProjectId);
+    resolveProject(req, res, next);
+  }, router);
+
   return httpServer;
 }
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { slaConfig } from "./config";
+import { log } from "./vite";
+import { getSlaStatus, type SlaStatus } from "@shared/sla";
+import type { SlaPolicy, Ticket } from "@shared/schema";
+
+const SLA_TARGETS = ["response", "resolution"] as const;
+
+// Only one check runs at a time within this process
+let running = false;
+
+// SLA status of a ticket under its project's policies, null when its priority has no policy
+export function getTicketSlaStatus(ticket: Ticket, policies: SlaPolicy[], now: Date = new Date()): SlaStatus | null {
+  const policy = policies.find(policy => policy.projectId === ticket.projectId && policy.priority === ticket.priority);
+  return policy ? getSlaStatus(ticket, policy, now, slaConfig.atRiskPercent / 100) : null;
+}
+
+// Record an "sla_breached" activity log the first time each ticket misses each target
+export async function checkSlaBreaches(now: Date = new Date()): Promise<void> {
+  const policies = await storage.getSlaPolicies();
+  if (policies.length === 0) return;
+
+  const recorded = new Set(
+    (await storage.getActivityLogsByAction("sla_breached")).map(entry =>
+      `${entry.ticketId}:${(entry.details as { target?: string } | null)?.target}`
+    )
+  );
+
+  let breachCount = 0;
+  for (const ticket of await storage.getTickets()) {
+    const status = getTicketSlaStatus(ticket, policies, now);
+    if (!status) continue;
+
+    for (const target of SLA_TARGETS) {
+      if (status[target].state !== "breached" || recorded.has(`${ticket.id}:${target}`)) continue;
+
+      await storage.addActivityLog({
+        ticketId: ticket.id,
+        action: "sla_breached",
+        details: {
+          target,
+          priority: ticket.priority,
+          dueAt: status[target].dueAt.toISOString(),
+          metAt: status[target].metAt?.toISOString() ?? null
+        }
+      });
+      breachCount++;
+    }
+  }
+
+  if (breachCount > 0) {
+    log(`recorded ${breachCount} SLA breaches`, "sla");
+  }
+}
+
+// Start the periodic breach check, returning a function that stops it
+export function startSlaMonitor(): () => void {
+  if (slaConfig.checkIntervalMs <= 0) return () => {};
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    checkSlaBreaches()
+      .catch(error => console.error("Error checking SLA breaches:", error))
+      .finally(() => { running = false; });
+  }, slaConfig.checkIntervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,43 +1,235 @@
-import { teamMembers, tickets, activityLogs } from "@shared/schema";
-import type { TeamMember, Ticket, ActivityLog, InsertTeamMember, InsertTicket, InsertActivityLog } from "@shared/schema";
-import { availableSkills } from "@shared/schema";
+import { teamMembers, tickets, ticketTemplates, recurringTickets, slaPolicies, activityLogs, outOfOfficeWindows, ticketStatusPeriods, ticketDependencies, comments, attachments, ticketWatchers, notifications, labels, customFieldDefinitions, projects, projectMembers } from "@shared/schema";
+import type {
+  Project,
+  TeamMember,
+  Ticket,
+  TicketTemplate,
+  RecurringTicket,
+  SlaPolicy,
+  ActivityLog,
+  OutOfOfficeWindow,
+  TicketStatusPeriod,
+  TicketDependency,
+  Comment,
+  Attachment,
+  TicketWatcher,
+  Notification,
+  Label,
+  CustomFieldDefinition,
+  InsertTeamMember,
+  InsertTicket,
+  InsertTicketTemplate,
+  InsertRecurringTicket,
+  InsertSlaPolicy,
+  InsertActivityLog,
+  InsertOutOfOfficeWindow,
+  InsertTicketDependency,
+  InsertComment,
+  InsertAttachment,
+  InsertLabel,
+  InsertCustomFieldDefinition,
+  InsertProject,
+} from "@shared/schema";
+import { availableSkills, defaultProjectId, defaultPriorities } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, ne, isNotNull } from "drizzle-orm";
+import { eq, and, or, desc, asc, ne, isNotNull, isNull, inArray, notInArray, sql } from "drizzle-orm";
+import {
+  getAssignmentStrategy,
+  evaluateTeamMembers,
+  rankEvaluations,
+  selectTeamMember,
+  isAtCapacity,
+  createAssignmentContext,
+  type AssignmentContext,
+  type TeamSnapshot,
+  type MemberEvaluation,
+} from "./assignment";
+import { getTicketLoad } from "./workload";
+import { planOptimalAssignments, type AssignmentPlan } from "./optimizer";
+import { assertTransition, isOpen, getProjectWorkflow, getWorkflowsByProject } from "./workflow";
+import { findDependencyCycle } from "./dependencies";
+import { createsParentCycle } from "./subtasks";
+import { parseCronSchedule, getNextOccurrence } from "@shared/schedule";
+import { getAssigneeAfterTransition, type WorkflowDefinition } from "@shared/workflow";
+import { ConflictError } from "./errors";
+
+// Options for planning a global assignment
+export interface PlanAssignmentsOptions {
+  // Only plan this project's tickets among its members, the default project when unset
+  projectId?: number;
+  // Also reconsider tickets that are already assigned
+  includeAssigned?: boolean;
+  strategy?: string;
+}
+
+// Options for assigning a ticket
+export interface AssignTicketOptions {
+  // Name of the assignment strategy to use for automatic assignment
+  strategy?: string;
+  // Override the ticket's lock and constraints or the member's capacity
+  force?: boolean;
+}
+
+// Options for completing a ticket
+export interface CompleteTicketOptions {
+  // Complete even though tickets blocking it are still open
+  force?: boolean;
+}
+
+// Options for looking up tickets
+export interface TicketQueryOptions {
+  // Also return tickets that are in the trash
+  includeDeleted?: boolean;
+}
+
+// Options for looking up a member's notifications
+export interface NotificationQueryOptions {
+  // Only return notifications that haven't been read yet
+  unreadOnly?: boolean;
+}
+
+// Tickets permanently removed from the trash
+export interface PurgedTickets {
+  ticketIds: number[];
+  // Attachment rows removed with them, their contents still have to be deleted
+  attachments: Attachment[];
+}
 
 // Interface for storage operations
 export interface IStorage {
-  // Team Member operations
-  getTeamMembers(): Promise<TeamMember[]>;
+  // Project operations
+  getProjects(): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, updates: Partial<InsertProject>): Promise<Project | undefined>;
+  addProjectMember(projectId: number, memberId: number): Promise<void>;
+  removeProjectMember(projectId: number, memberId: number): Promise<boolean>;
+  getMemberProjects(memberId: number): Promise<Project[]>;
+  
+  // Team Member operations, optionally limited to a project's roster
+  getTeamMembers(projectId?: number): Promise<TeamMember[]>;
   getTeamMember(id: number): Promise<TeamMember | undefined>;
-  createTeamMember(teamMember: InsertTeamMember): Promise<TeamMember>;
+  createTeamMember(teamMember: InsertTeamMember, projectId?: number): Promise<TeamMember>;
+  updateTeamMember(id: number, updates: Partial<InsertTeamMember>): Promise<TeamMember | undefined>;
   
-  // Ticket operations
-  getTickets(): Promise<Ticket[]>;
-  getTicket(id: number): Promise<Ticket | undefined>;
-  createTicket(ticket: InsertTicket): Promise<Ticket>;
+  // Availability operations
+  getOutOfOfficeWindows(memberId?: number): Promise<OutOfOfficeWindow[]>;
+  addOutOfOfficeWindow(window: InsertOutOfOfficeWindow): Promise<OutOfOfficeWindow>;
+  deleteOutOfOfficeWindow(id: number): Promise<boolean>;
+  
+  // Label operations, optionally limited to a project's labels
+  getLabels(projectId?: number): Promise<Label[]>;
+  getLabel(id: number): Promise<Label | undefined>;
+  createLabel(label: InsertLabel, projectId: number): Promise<Label>;
+  updateLabel(id: number, updates: Partial<InsertLabel>): Promise<Label | undefined>;
+  deleteLabel(id: number): Promise<boolean>;
+  
+  // Custom field operations, optionally limited to a project's fields
+  getCustomFieldDefinitions(projectId?: number): Promise<CustomFieldDefinition[]>;
+  getCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined>;
+  createCustomFieldDefinition(definition: InsertCustomFieldDefinition, projectId: number): Promise<CustomFieldDefinition>;
+  updateCustomFieldDefinition(
+    id: number,
+    updates: Partial<Pick<InsertCustomFieldDefinition, "label" | "options" | "required">>,
+  ): Promise<CustomFieldDefinition | undefined>;
+  deleteCustomFieldDefinition(id: number): Promise<boolean>;
+  
+  // SLA policy operations, one policy per project priority
+  getSlaPolicies(projectId?: number): Promise<SlaPolicy[]>;
+  setSlaPolicy(policy: InsertSlaPolicy, projectId: number): Promise<SlaPolicy>;
+  deleteSlaPolicy(projectId: number, priority: string): Promise<boolean>;
+  
+  // Ticket template operations
+  getTicketTemplates(projectId: number): Promise<TicketTemplate[]>;
+  getTicketTemplate(id: number): Promise<TicketTemplate | undefined>;
+  createTicketTemplate(template: InsertTicketTemplate, projectId: number): Promise<TicketTemplate>;
+  updateTicketTemplate(id: number, updates: Partial<InsertTicketTemplate>): Promise<TicketTemplate | undefined>;
+  deleteTicketTemplate(id: number): Promise<boolean>;
+  
+  // Recurring ticket operations
+  getRecurringTickets(projectId?: number): Promise<RecurringTicket[]>;
+  getRecurringTicket(id: number): Promise<RecurringTicket | undefined>;
+  createRecurringTicket(definition: InsertRecurringTicket, projectId: number): Promise<RecurringTicket>;
+  updateRecurringTicket(id: number, updates: Partial<InsertRecurringTicket>): Promise<RecurringTicket | undefined>;
+  deleteRecurringTicket(id: number): Promise<boolean>;
+  getDueRecurringTickets(now: Date): Promise<RecurringTicket[]>;
+  claimRecurringRun(id: number, occurrence: Date, nextRunAt: Date | null): Promise<boolean>;
+  
+  // Ticket operations, optionally limited to a project
+  getTickets(projectId?: number, options?: TicketQueryOptions): Promise<Ticket[]>;
+  getTicket(id: number, options?: TicketQueryOptions): Promise<Ticket | undefined>;
+  createTicket(ticket: InsertTicket, projectId?: number): Promise<Ticket>;
   updateTicket(id: number, updates: Partial<Ticket>): Promise<Ticket | undefined>;
   deleteTicket(id: number): Promise<boolean>;
   
+  // Trash operations
+  getDeletedTickets(projectId?: number): Promise<Ticket[]>;
+  restoreTicket(id: number): Promise<Ticket | undefined>;
+  purgeDeletedTickets(deletedBefore: Date): Promise<PurgedTickets>;
+  
+  // Subtask operations
+  getSubtasks(parentId: number): Promise<Ticket[]>;
+  createSubtasks(parentId: number, subtasks: InsertTicket[]): Promise<Ticket[] | undefined>;
+  
   // Assignment logic
-  assignTicket(ticketId: number, memberId?: number): Promise<Ticket | undefined>;
-  completeTicket(ticketId: number): Promise<Ticket | undefined>;
+  assignTicket(ticketId: number, memberId?: number, options?: AssignTicketOptions): Promise<Ticket | undefined>;
+  completeTicket(ticketId: number, options?: CompleteTicketOptions): Promise<Ticket | undefined>;
   reopenTicket(ticketId: number): Promise<Ticket | undefined>;
+  transitionTicket(ticketId: number, status: string, reason?: string, options?: CompleteTicketOptions): Promise<Ticket | undefined>;
+  
+  // Dependency operations
+  getTicketDependencies(ticketId?: number): Promise<TicketDependency[]>;
+  addTicketDependency(dependency: InsertTicketDependency): Promise<TicketDependency | undefined>;
+  removeTicketDependency(id: number): Promise<boolean>;
+  
+  // Comment operations
+  getComments(ticketId: number): Promise<Comment[]>;
+  getComment(id: number): Promise<Comment | undefined>;
+  addComment(comment: InsertComment): Promise<Comment>;
+  updateComment(id: number, body: string): Promise<Comment | undefined>;
+  deleteComment(id: number): Promise<boolean>;
+  
+  // Attachment operations
+  getAttachments(ticketId: number): Promise<Attachment[]>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  addAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(id: number): Promise<Attachment | undefined>;
+  
+  // Watcher operations, watchers are notified of every activity on the ticket
+  getWatchers(ticketId: number): Promise<TicketWatcher[]>;
+  addWatcher(ticketId: number, memberId: number): Promise<TicketWatcher>;
+  removeWatcher(ticketId: number, memberId: number): Promise<boolean>;
+  
+  // Notification operations
+  getNotifications(memberId: number, options?: NotificationQueryOptions): Promise<Notification[]>;
+  markNotificationRead(id: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(memberId: number): Promise<number>;
+  
+  // Time-in-status operations
+  getStatusPeriods(ticketId?: number): Promise<TicketStatusPeriod[]>;
   
   // Activity log operations
   getActivityLogs(ticketId: number): Promise<ActivityLog[]>;
+  getActivityLogsByAction(action: string): Promise<ActivityLog[]>;
   addActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
   
   // Helper for skill-based assignment
-  findBestTeamMember(requiredSkills: string[]): Promise<TeamMember | undefined>;
+  findBestTeamMember(ticket: Ticket, strategyName?: string): Promise<TeamMember | undefined>;
+  getAssignmentCandidates(ticketId: number, strategyName?: string): Promise<MemberEvaluation[] | undefined>;
+  planAssignments(options?: PlanAssignmentsOptions): Promise<AssignmentPlan>;
+  applyAssignmentPlan(plan: AssignmentPlan): Promise<Ticket[]>;
 }
 
+// The database or a transaction several writes go through together
+type Executor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
 // Initial team members data
 const initialTeamMembers: InsertTeamMember[] = [
-  { name: "John Doe", skills: ["Frontend", "Design"], initials: "JD" },
-  { name: "Jane Smith", skills: ["Backend", "Database"], initials: "JS" },
-  { name: "Alex Johnson", skills: ["Frontend", "Backend"], initials: "AJ" },
-  { name: "Sam Williams", skills: ["Design", "Database"], initials: "SW" },
-  { name: "Taylor Green", skills: ["Frontend", "Backend", "Database"], initials: "TG" },
+  { name: "John Doe", skills: ["Frontend", "Design"], skillLevels: { Frontend: 4, Design: 3 }, initials: "JD" },
+  { name: "Jane Smith", skills: ["Backend", "Database"], skillLevels: { Backend: 5, Database: 4 }, initials: "JS" },
+  { name: "Alex Johnson", skills: ["Frontend", "Backend"], skillLevels: { Frontend: 3, Backend: 2 }, initials: "AJ" },
+  { name: "Sam Williams", skills: ["Design", "Database"], skillLevels: { Design: 5, Database: 2 }, initials: "SW" },
+  { name: "Taylor Green", skills: ["Frontend", "Backend", "Database"], skillLevels: { Frontend: 2, Backend: 3, Database: 3 }, initials: "TG" },
 ];
 
 export class DatabaseStorage implements IStorage {
@@ -47,19 +239,156 @@ export class DatabaseStorage implements IStorage {
   }
 
   private async seedInitialTeamMembers() {
+    // Everything unscoped belongs to the default project, the first one created
+    const existingProjects = await db.select().from(projects);
+    if (existingProjects.length === 0) {
+      await db.insert(projects).values({ key: "MAIN", name: "Default Project", skills: availableSkills });
+    }
+
     const existingMembers = await db.select().from(teamMembers);
     
     if (existingMembers.length === 0) {
       // No members found, insert initial team members
       for (const member of initialTeamMembers) {
-        await db.insert(teamMembers).values(member);
+        await this.createTeamMember(member, defaultProjectId);
+      }
+    }
+  }
+
+  // Project operations
+  async getProjects(): Promise<Project[]> {
+    return db.select().from(projects).orderBy(asc(projects.id));
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async createProject(project: InsertProject): Promise<Project> {
+    const [existing] = await db.select().from(projects).where(eq(projects.key, project.key));
+    if (existing) {
+      throw new ConflictError(`A project with key "${project.key}" already exists`);
+    }
+
+    const [newProject] = await db.insert(projects).values(project).returning();
+    return newProject;
+  }
+
+  async updateProject(id: number, updates: Partial<InsertProject>): Promise<Project | undefined> {
+    if (updates.key !== undefined) {
+      const [existing] = await db.select().from(projects).where(eq(projects.key, updates.key));
+      if (existing && existing.id !== id) {
+        throw new ConflictError(`A project with key "${updates.key}" already exists`);
+      }
+    }
+
+    // Priorities still used by the project's tickets or templates can't be dropped
+    if (updates.priorities !== undefined) {
+      const keys = updates.priorities.map(level => level.key);
+      const [ticketInUse] = await db
+        .select({ priority: tickets.priority })
+        .from(tickets)
+        .where(and(eq(tickets.projectId, id), notInArray(tickets.priority, keys)))
+        .limit(1);
+      const [templateInUse] = await db
+        .select({ priority: ticketTemplates.priority })
+        .from(ticketTemplates)
+        .where(and(eq(ticketTemplates.projectId, id), notInArray(ticketTemplates.priority, keys)))
+        .limit(1);
+      const inUse = ticketInUse ?? templateInUse;
+      if (inUse) {
+        throw new ConflictError(`Priority "${inUse.priority}" is still used in this project`);
+      }
+
+      // Policies of dropped priorities go with them
+      await db.delete(slaPolicies).where(and(eq(slaPolicies.projectId, id), notInArray(slaPolicies.priority, keys)));
+    }
+
+    // Every status the project's tickets are in has to exist in its new workflow
+    if (updates.workflow !== undefined) {
+      const names = getProjectWorkflow({ workflow: updates.workflow }).states.map(state => state.name);
+      const [inUse] = await db
+        .select({ status: tickets.status })
+        .from(tickets)
+        .where(and(eq(tickets.projectId, id), notInArray(tickets.status, names)))
+        .limit(1);
+      if (inUse) {
+        throw new ConflictError(`Status "${inUse.status}" is still used in this project`);
       }
     }
+
+    const [updatedProject] = await db
+      .update(projects)
+      .set(updates)
+      .where(eq(projects.id, id))
+      .returning();
+    return updatedProject;
+  }
+
+  async addProjectMember(projectId: number, memberId: number): Promise<void> {
+    await db.insert(projectMembers).values({ projectId, memberId }).onConflictDoNothing();
+  }
+
+  // A member leaving a project gives up their open tickets there, which go back into the queue
+  async removeProjectMember(projectId: number, memberId: number): Promise<boolean> {
+    const projectWorkflow = await this.getWorkflow(projectId);
+    return db.transaction(async (tx): Promise<boolean> => {
+      const [removed] = await tx
+        .delete(projectMembers)
+        .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.memberId, memberId)))
+        .returning();
+      if (!removed) return false;
+
+      const assigned = await tx
+        .select()
+        .from(tickets)
+        .where(and(eq(tickets.projectId, projectId), eq(tickets.assignedTo, memberId)))
+        .for("update");
+
+      for (const ticket of assigned.filter(ticket => isOpen(ticket.status, projectWorkflow))) {
+        const [requeued] = await tx
+          .update(tickets)
+          .set({ assignedTo: null, assignedAt: null, status: projectWorkflow.initialState, statusReason: null })
+          .where(eq(tickets.id, ticket.id))
+          .returning();
+
+        if (ticket.status !== requeued.status) {
+          await this.recordStatusChange(ticket.id, requeued.status, undefined, tx);
+        }
+
+        await this.insertActivityLog({
+          ticketId: ticket.id,
+          action: "unassigned",
+          details: { memberId, previousStatus: ticket.status, reason: "Removed from the project" }
+        }, tx);
+      }
+
+      return true;
+    });
+  }
+
+  async getMemberProjects(memberId: number): Promise<Project[]> {
+    const rows = await db
+      .select({ project: projects })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+      .where(eq(projectMembers.memberId, memberId));
+    return rows.map(row => row.project);
   }
 
   // Team Member operations
-  async getTeamMembers(): Promise<TeamMember[]> {
-    return db.select().from(teamMembers);
+  async getTeamMembers(projectId?: number): Promise<TeamMember[]> {
+    if (projectId === undefined) {
+      return db.select().from(teamMembers);
+    }
+
+    const rows = await db
+      .select({ member: teamMembers })
+      .from(teamMembers)
+      .innerJoin(projectMembers, eq(projectMembers.memberId, teamMembers.id))
+      .where(eq(projectMembers.projectId, projectId));
+    return rows.map(row => row.member);
   }
 
   async getTeamMember(id: number): Promise<TeamMember | undefined> {
@@ -67,34 +396,375 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
-  async createTeamMember(teamMember: InsertTeamMember): Promise<TeamMember> {
+  async createTeamMember(teamMember: InsertTeamMember, projectId?: number): Promise<TeamMember> {
     const [newMember] = await db.insert(teamMembers).values(teamMember).returning();
+    if (projectId !== undefined) {
+      await this.addProjectMember(projectId, newMember.id);
+    }
     return newMember;
   }
 
+  async updateTeamMember(id: number, updates: Partial<InsertTeamMember>): Promise<TeamMember | undefined> {
+    const [updatedMember] = await db
+      .update(teamMembers)
+      .set(updates)
+      .where(eq(teamMembers.id, id))
+      .returning();
+    return updatedMember;
+  }
+
+  // Availability operations
+  async getOutOfOfficeWindows(memberId?: number): Promise<OutOfOfficeWindow[]> {
+    const query = db.select().from(outOfOfficeWindows);
+    const windows = memberId !== undefined
+      ? await query.where(eq(outOfOfficeWindows.memberId, memberId))
+      : await query;
+    return windows.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async addOutOfOfficeWindow(window: InsertOutOfOfficeWindow): Promise<OutOfOfficeWindow> {
+    const [newWindow] = await db.insert(outOfOfficeWindows).values(window).returning();
+    return newWindow;
+  }
+
+  async deleteOutOfOfficeWindow(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(outOfOfficeWindows)
+      .where(eq(outOfOfficeWindows.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Label operations
+  async getLabels(projectId?: number): Promise<Label[]> {
+    return db
+      .select()
+      .from(labels)
+      .where(projectId !== undefined ? eq(labels.projectId, projectId) : undefined)
+      .orderBy(asc(labels.name));
+  }
+
+  async getLabel(id: number): Promise<Label | undefined> {
+    const [label] = await db.select().from(labels).where(eq(labels.id, id));
+    return label;
+  }
+
+  async createLabel(label: InsertLabel, projectId: number): Promise<Label> {
+    await this.assertLabelNameFree(label.name, projectId);
+    const [newLabel] = await db.insert(labels).values({ ...label, projectId }).returning();
+    return newLabel;
+  }
+
+  async updateLabel(id: number, updates: Partial<InsertLabel>): Promise<Label | undefined> {
+    if (updates.name !== undefined) {
+      const label = await this.getLabel(id);
+      if (!label) return undefined;
+      await this.assertLabelNameFree(updates.name, label.projectId, id);
+    }
+
+    const [updatedLabel] = await db
+      .update(labels)
+      .set(updates)
+      .where(eq(labels.id, id))
+      .returning();
+    return updatedLabel;
+  }
+
+  // Deleting a label also takes it off every ticket and template
+  async deleteLabel(id: number): Promise<boolean> {
+    const [removed] = await db.delete(labels).where(eq(labels.id, id)).returning();
+    if (!removed) return false;
+
+    await db
+      .update(tickets)
+      .set({ labelIds: sql`array_remove(${tickets.labelIds}, ${id})` })
+      .where(sql`${id} = ANY(${tickets.labelIds})`);
+    await db
+      .update(ticketTemplates)
+      .set({ labelIds: sql`array_remove(${ticketTemplates.labelIds}, ${id})` })
+      .where(sql`${id} = ANY(${ticketTemplates.labelIds})`);
+
+    return true;
+  }
+
+  // Label names are unique within a project regardless of case
+  private async assertLabelNameFree(name: string, projectId: number, exceptId?: number) {
+    const existing = await this.getLabels(projectId);
+    if (existing.some(label => label.id !== exceptId && label.name.toLowerCase() === name.toLowerCase())) {
+      throw new ConflictError(`A label named "${name}" already exists`);
+    }
+  }
+
+  // Custom field operations
+  async getCustomFieldDefinitions(projectId?: number): Promise<CustomFieldDefinition[]> {
+    return db
+      .select()
+      .from(customFieldDefinitions)
+      .where(projectId !== undefined ? eq(customFieldDefinitions.projectId, projectId) : undefined)
+      .orderBy(asc(customFieldDefinitions.id));
+  }
+
+  async getCustomFieldDefinition(id: number): Promise<CustomFieldDefinition | undefined> {
+    const [definition] = await db.select().from(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+    return definition;
+  }
+
+  async createCustomFieldDefinition(definition: InsertCustomFieldDefinition, projectId: number): Promise<CustomFieldDefinition> {
+    const [existing] = await db
+      .select()
+      .from(customFieldDefinitions)
+      .where(and(eq(customFieldDefinitions.projectId, projectId), eq(customFieldDefinitions.key, definition.key)));
+    if (existing) {
+      throw new ConflictError(`A custom field with key "${definition.key}" already exists`);
+    }
+
+    const [newDefinition] = await db.insert(customFieldDefinitions).values({ ...definition, projectId }).returning();
+    return newDefinition;
+  }
+
+  // The key and type are fixed once values may have been stored under them
+  async updateCustomFieldDefinition(
+    id: number,
+    updates: Partial<Pick<InsertCustomFieldDefinition, "label" | "options" | "required">>,
+  ): Promise<CustomFieldDefinition | undefined> {
+    const [updatedDefinition] = await db
+      .update(customFieldDefinitions)
+      .set(updates)
+      .where(eq(customFieldDefinitions.id, id))
+      .returning();
+    return updatedDefinition;
+  }
+
+  // Deleting a definition also drops its values from the project's tickets and templates
+  async deleteCustomFieldDefinition(id: number): Promise<boolean> {
+    const [removed] = await db.delete(customFieldDefinitions).where(eq(customFieldDefinitions.id, id)).returning();
+    if (!removed) return false;
+
+    await db
+      .update(tickets)
+      .set({ customFields: sql`${tickets.customFields} - ${removed.key}` })
+      .where(and(eq(tickets.projectId, removed.projectId), sql`${tickets.customFields} ? ${removed.key}`));
+    await db
+      .update(ticketTemplates)
+      .set({ customFields: sql`${ticketTemplates.customFields} - ${removed.key}` })
+      .where(and(eq(ticketTemplates.projectId, removed.projectId), sql`${ticketTemplates.customFields} ? ${removed.key}`));
+
+    return true;
+  }
+
+  // SLA policy operations
+  async getSlaPolicies(projectId?: number): Promise<SlaPolicy[]> {
+    return db
+      .select()
+      .from(slaPolicies)
+      .where(projectId !== undefined ? eq(slaPolicies.projectId, projectId) : undefined)
+      .orderBy(asc(slaPolicies.id));
+  }
+
+  // Create the priority's policy or replace its targets
+  async setSlaPolicy(policy: InsertSlaPolicy, projectId: number): Promise<SlaPolicy> {
+    const [savedPolicy] = await db
+      .insert(slaPolicies)
+      .values({ ...policy, projectId })
+      .onConflictDoUpdate({
+        target: [slaPolicies.projectId, slaPolicies.priority],
+        set: { responseMinutes: policy.responseMinutes, resolutionMinutes: policy.resolutionMinutes },
+      })
+      .returning();
+    return savedPolicy;
+  }
+
+  async deleteSlaPolicy(projectId: number, priority: string): Promise<boolean> {
+    const [removed] = await db
+      .delete(slaPolicies)
+      .where(and(eq(slaPolicies.projectId, projectId), eq(slaPolicies.priority, priority)))
+      .returning();
+    return !!removed;
+  }
+
+  // Ticket template operations
+  async getTicketTemplates(projectId: number): Promise<TicketTemplate[]> {
+    return db
+      .select()
+      .from(ticketTemplates)
+      .where(eq(ticketTemplates.projectId, projectId))
+      .orderBy(asc(ticketTemplates.name));
+  }
+
+  async getTicketTemplate(id: number): Promise<TicketTemplate | undefined> {
+    const [template] = await db.select().from(ticketTemplates).where(eq(ticketTemplates.id, id));
+    return template;
+  }
+
+  async createTicketTemplate(template: InsertTicketTemplate, projectId: number): Promise<TicketTemplate> {
+    await this.assertTemplateNameFree(projectId, template.name);
+    const [newTemplate] = await db.insert(ticketTemplates).values({ ...template, projectId }).returning();
+    return newTemplate;
+  }
+
+  async updateTicketTemplate(id: number, updates: Partial<InsertTicketTemplate>): Promise<TicketTemplate | undefined> {
+    const template = await this.getTicketTemplate(id);
+    if (!template) return undefined;
+
+    if (updates.name !== undefined) {
+      await this.assertTemplateNameFree(template.projectId, updates.name, id);
+    }
+
+    const [updatedTemplate] = await db
+      .update(ticketTemplates)
+      .set(updates)
+      .where(eq(ticketTemplates.id, id))
+      .returning();
+    return updatedTemplate;
+  }
+
+  // Templates still used by a recurring ticket can't be deleted
+  async deleteTicketTemplate(id: number): Promise<boolean> {
+    const [inUse] = await db.select().from(recurringTickets).where(eq(recurringTickets.templateId, id));
+    if (inUse) {
+      throw new ConflictError(`Template is used by recurring ticket #${inUse.id}`);
+    }
+
+    const [removed] = await db.delete(ticketTemplates).where(eq(ticketTemplates.id, id)).returning();
+    return !!removed;
+  }
+
+  // Recurring ticket operations
+  async getRecurringTickets(projectId?: number): Promise<RecurringTicket[]> {
+    const query = db.select().from(recurringTickets);
+    const definitions = projectId !== undefined ? query.where(eq(recurringTickets.projectId, projectId)) : query;
+    return definitions.orderBy(asc(recurringTickets.id));
+  }
+
+  async getRecurringTicket(id: number): Promise<RecurringTicket | undefined> {
+    const [definition] = await db.select().from(recurringTickets).where(eq(recurringTickets.id, id));
+    return definition;
+  }
+
+  async createRecurringTicket(definition: InsertRecurringTicket, projectId: number): Promise<RecurringTicket> {
+    const active = definition.active ?? true;
+    const [newDefinition] = await db
+      .insert(recurringTickets)
+      .values({
+        ...definition,
+        projectId,
+        nextRunAt: active ? this.getNextRunAt(definition.schedule, new Date()) : null,
+      })
+      .returning();
+    return newDefinition;
+  }
+
+  async updateRecurringTicket(id: number, updates: Partial<InsertRecurringTicket>): Promise<RecurringTicket | undefined> {
+    const definition = await this.getRecurringTicket(id);
+    if (!definition) return undefined;
+
+    // Changing the schedule or switching it back on starts counting from now
+    const schedule = updates.schedule ?? definition.schedule;
+    const active = updates.active ?? definition.active;
+    const rescheduled = schedule !== definition.schedule || active !== definition.active;
+    const nextRunAt = rescheduled
+      ? (active ? this.getNextRunAt(schedule, new Date()) : null)
+      : definition.nextRunAt;
+
+    const [updatedDefinition] = await db
+      .update(recurringTickets)
+      .set({ ...updates, nextRunAt })
+      .where(eq(recurringTickets.id, id))
+      .returning();
+    return updatedDefinition;
+  }
+
+  async deleteRecurringTicket(id: number): Promise<boolean> {
+    const [removed] = await db.delete(recurringTickets).where(eq(recurringTickets.id, id)).returning();
+    return !!removed;
+  }
+
+  async getDueRecurringTickets(now: Date): Promise<RecurringTicket[]> {
+    return db
+      .select()
+      .from(recurringTickets)
+      .where(and(eq(recurringTickets.active, true), sql`${recurringTickets.nextRunAt} <= ${now}`))
+      .orderBy(asc(recurringTickets.nextRunAt));
+  }
+
+  // Move a definition past the given occurrence. Only one caller wins for each occurrence,
+  // so whoever gets true creates its ticket.
+  async claimRecurringRun(id: number, occurrence: Date, nextRunAt: Date | null): Promise<boolean> {
+    const [claimed] = await db
+      .update(recurringTickets)
+      .set({ nextRunAt, lastRunAt: occurrence })
+      .where(and(
+        eq(recurringTickets.id, id),
+        eq(recurringTickets.active, true),
+        eq(recurringTickets.nextRunAt, occurrence),
+      ))
+      .returning();
+    return !!claimed;
+  }
+
+  private getNextRunAt(schedule: string, after: Date): Date | null {
+    const parsed = parseCronSchedule(schedule);
+    return parsed ? getNextOccurrence(parsed, after) : null;
+  }
+
+  // Template names are unique within a project regardless of case
+  private async assertTemplateNameFree(projectId: number, name: string, exceptId?: number) {
+    const existing = await this.getTicketTemplates(projectId);
+    if (existing.some(template => template.id !== exceptId && template.name.toLowerCase() === name.toLowerCase())) {
+      throw new ConflictError(`A template named "${name}" already exists`);
+    }
+  }
+
   // Ticket operations
-  async getTickets(): Promise<Ticket[]> {
-    return db.select().from(tickets);
+  async getTickets(projectId?: number, options: TicketQueryOptions = {}): Promise<Ticket[]> {
+    return db
+      .select()
+      .from(tickets)
+      .where(and(
+        projectId !== undefined ? eq(tickets.projectId, projectId) : undefined,
+        options.includeDeleted ? undefined : isNull(tickets.deletedAt),
+      ));
   }
 
-  async getTicket(id: number): Promise<Ticket | undefined> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, id));
+  async getTicket(id: number, options: TicketQueryOptions = {}): Promise<Ticket | undefined> {
+    const [ticket] = await db
+      .select()
+      .from(tickets)
+      .where(and(eq(tickets.id, id), options.includeDeleted ? undefined : isNull(tickets.deletedAt)));
     return ticket;
   }
 
-  async createTicket(ticket: InsertTicket): Promise<Ticket> {
+  async createTicket(ticket: InsertTicket, projectId: number = defaultProjectId): Promise<Ticket> {
     const now = new Date();
+
+    // Check the assignee before anything is stored so a refusal leaves no ticket behind
+    if (ticket.assignedTo) {
+      await this.assertProjectMembers(projectId, [ticket.assignedTo]);
+    }
+    
+    // Take the project's next ticket number
+    const [project] = await db
+      .update(projects)
+      .set({ nextTicketNumber: sql`${projects.nextTicketNumber} + 1` })
+      .where(eq(projects.id, projectId))
+      .returning({ nextTicketNumber: projects.nextTicketNumber, workflow: projects.workflow });
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
     
-    // Prepare ticket data
+    // Prepare ticket data, the assignment itself goes through assignTicket below
     const ticketData = {
       ...ticket,
-      status: "pending",
+      projectId,
+      number: project.nextTicketNumber - 1,
+      assignedTo: undefined,
+      status: getProjectWorkflow(project).initialState,
       createdAt: now,
-      assignedAt: ticket.assignedTo ? now : undefined,
     };
     
     // Insert the ticket and get the newly created ticket
     const [newTicket] = await db.insert(tickets).values(ticketData).returning();
+    await this.recordStatusChange(newTicket.id, newTicket.status);
 
     // Add creation activity log
     await this.addActivityLog({
@@ -103,6 +773,11 @@ export class DatabaseStorage implements IStorage {
       details: { ticket: newTicket }
     });
 
+    // The creator follows the ticket from here on
+    if (newTicket.createdBy) {
+      await this.addWatcher(newTicket.id, newTicket.createdBy);
+    }
+
     // If assignedTo is provided, automatically assign the ticket
     if (ticket.assignedTo) {
       const assignedTicket = await this.assignTicket(newTicket.id, ticket.assignedTo);
@@ -113,9 +788,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateTicket(id: number, updates: Partial<Ticket>): Promise<Ticket | undefined> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, id));
+    const ticket = await this.getTicket(id);
     if (!ticket) return undefined;
 
+    if (updates.parentId != null && createsParentCycle(await this.getTickets(undefined, { includeDeleted: true }), id, updates.parentId)) {
+      throw new ConflictError("A ticket cannot be a subtask of itself or of its own subtasks");
+    }
+
     const [updatedTicket] = await db
       .update(tickets)
       .set(updates)
@@ -132,12 +811,15 @@ export class DatabaseStorage implements IStorage {
     return updatedTicket;
   }
 
+  // Move the ticket to the trash, it keeps its links until it is purged
   async deleteTicket(id: number): Promise<boolean> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, id));
+    const [ticket] = await db
+      .update(tickets)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(tickets.id, id), isNull(tickets.deletedAt)))
+      .returning();
     if (!ticket) return false;
     
-    await db.delete(tickets).where(eq(tickets.id, id));
-    
     // Add deletion activity log
     await this.addActivityLog({
       ticketId: id,
@@ -148,16 +830,155 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Trash operations
+  async getDeletedTickets(projectId?: number): Promise<Ticket[]> {
+    return db
+      .select()
+      .from(tickets)
+      .where(and(
+        projectId !== undefined ? eq(tickets.projectId, projectId) : undefined,
+        isNotNull(tickets.deletedAt),
+      ))
+      .orderBy(desc(tickets.deletedAt));
+  }
+
+  async restoreTicket(id: number): Promise<Ticket | undefined> {
+    const [ticket] = await db
+      .update(tickets)
+      .set({ deletedAt: null })
+      .where(and(eq(tickets.id, id), isNotNull(tickets.deletedAt)))
+      .returning();
+    if (!ticket) return undefined;
+
+    await this.addActivityLog({
+      ticketId: id,
+      action: "restored",
+      details: {}
+    });
+
+    return ticket;
+  }
+
+  // Permanently remove tickets trashed before the cutoff along with everything that refers to them.
+  // It all happens in one transaction, the attachment contents are left for the caller to delete
+  // once it has committed.
+  async purgeDeletedTickets(deletedBefore: Date): Promise<PurgedTickets> {
+    return db.transaction(async (tx): Promise<PurgedTickets> => {
+      const expired = await tx
+        .select({ id: tickets.id })
+        .from(tickets)
+        .where(and(isNotNull(tickets.deletedAt), sql`${tickets.deletedAt} < ${deletedBefore}`))
+        .for("update");
+      if (expired.length === 0) return { ticketIds: [], attachments: [] };
+
+      // Rows referring to the tickets go first
+      const ids = expired.map(ticket => ticket.id);
+      await tx
+        .delete(ticketDependencies)
+        .where(or(inArray(ticketDependencies.ticketId, ids), inArray(ticketDependencies.blockedById, ids)));
+      await tx.delete(comments).where(inArray(comments.ticketId, ids));
+      await tx.delete(ticketStatusPeriods).where(inArray(ticketStatusPeriods.ticketId, ids));
+      await tx.delete(notifications).where(inArray(notifications.ticketId, ids));
+      await tx.delete(activityLogs).where(inArray(activityLogs.ticketId, ids));
+      await tx.delete(ticketWatchers).where(inArray(ticketWatchers.ticketId, ids));
+      const removedAttachments = await tx.delete(attachments).where(inArray(attachments.ticketId, ids)).returning();
+      // Subtasks of a purged ticket become top-level tickets
+      await tx.update(tickets).set({ parentId: null }).where(inArray(tickets.parentId, ids));
+
+      await tx.delete(tickets).where(inArray(tickets.id, ids));
+
+      return { ticketIds: ids, attachments: removedAttachments };
+    });
+  }
+
+  // Subtask operations
+  async getSubtasks(parentId: number): Promise<Ticket[]> {
+    return db
+      .select()
+      .from(tickets)
+      .where(and(eq(tickets.parentId, parentId), isNull(tickets.deletedAt)))
+      .orderBy(asc(tickets.id));
+  }
+
+  // Create each subtask under the parent and auto-assign it on its own by its skills
+  async createSubtasks(parentId: number, subtasks: InsertTicket[]): Promise<Ticket[] | undefined> {
+    const parent = await this.getTicket(parentId);
+    if (!parent) return undefined;
+
+    await this.assertProjectMembers(
+      parent.projectId,
+      subtasks.flatMap(subtask => subtask.assignedTo ? [subtask.assignedTo] : []),
+    );
+
+    const created: Ticket[] = [];
+    for (const subtask of subtasks) {
+      let ticket = await this.createTicket({ ...subtask, parentId }, parent.projectId);
+      if (!subtask.assignedTo && subtask.skills.length > 0) {
+        ticket = (await this.assignTicket(ticket.id)) || ticket;
+      }
+      created.push(ticket);
+    }
+
+    await this.addActivityLog({
+      ticketId: parentId,
+      action: "subtasks_added",
+      details: { subtaskIds: created.map(ticket => ticket.id) }
+    });
+
+    return created;
+  }
+
   // Assignment logic
-  async assignTicket(ticketId: number, memberId?: number): Promise<Ticket | undefined> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
+  async assignTicket(ticketId: number, memberId?: number, options: AssignTicketOptions = {}): Promise<Ticket | undefined> {
+    // Trashed tickets have to be restored before anything else happens to them
+    const ticket = await this.getTicket(ticketId);
     if (!ticket) return undefined;
 
+    // Closed tickets have to be reopened first
+    const ticketWorkflow = await this.getWorkflow(ticket.projectId);
+    if (!isOpen(ticket.status, ticketWorkflow)) {
+      throw new ConflictError("Reopen the ticket before assigning it");
+    }
+    assertTransition(ticket.status, ticketWorkflow.assignedState, ticketWorkflow);
+
+    // Locked tickets stay with their assignee unless explicitly forced
+    if (ticket.assignmentLocked && ticket.assignedTo && memberId !== ticket.assignedTo && !options.force) {
+      await this.addActivityLog({
+        ticketId,
+        action: "assignment_refused",
+        details: {
+          memberId: memberId ?? null,
+          reason: "The ticket's assignment is locked"
+        }
+      });
+
+      return ticket;
+    }
+
     // If no member ID is provided, find the best match based on skills
     if (!memberId) {
-      const bestMember = await this.findBestTeamMember(ticket.skills);
-      memberId = bestMember?.id;
+      const evaluations = await this.evaluateCandidates(ticket, options.strategy);
+      memberId = selectTeamMember(evaluations)?.id;
       if (!memberId) {
+        // Leave the ticket as it is, noting when only capacity stood in the way.
+        // Retries that end the same way as the last attempt aren't noted again.
+        const atCapacity = evaluations.filter(({ excludedReason }) => excludedReason?.startsWith("At capacity"));
+        if (atCapacity.length > 0) {
+          const details = {
+            reason: "All matching team members are at capacity",
+            memberIds: atCapacity.map(({ member }) => member.id).sort((a, b) => a - b)
+          };
+          const [latest] = await this.getActivityLogs(ticketId);
+          const previous = latest?.details as Partial<typeof details> | null;
+          const repeated = latest?.action === "assignment_deferred" &&
+            previous?.reason === details.reason &&
+            previous.memberIds?.join() === details.memberIds.join();
+
+          if (!repeated) {
+            await this.addActivityLog({ ticketId, action: "assignment_deferred", details });
+          }
+        }
+
         // No suitable member found, return the unchanged ticket
         const [unchangedTicket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
         return unchangedTicket;
@@ -172,11 +993,44 @@ export class DatabaseStorage implements IStorage {
       return unchangedTicket;
     }
 
+    // Only members of the ticket's project can work on it, even when forced
+    const roster = await this.getTeamMembers(ticket.projectId);
+    if (!roster.some(({ id }) => id === member.id)) {
+      throw new ConflictError(`${member.name} is not a member of this ticket's project`);
+    }
+
+    // Refuse to break the ticket's constraints or the member's capacity unless explicitly forced
+    const context = await this.buildAssignmentContext(ticket);
+    let refusalReason: string | undefined;
+    if (ticket.excludedMembers.includes(member.id)) {
+      refusalReason = `${member.name} is excluded from this ticket`;
+    } else if (ticket.requiredMember !== null && ticket.requiredMember !== member.id) {
+      refusalReason = "The ticket is pinned to another team member";
+    } else if (isAtCapacity(member, context)) {
+      refusalReason = `${member.name} is at capacity (${member.maxOpenTickets} open tickets)`;
+    }
+
+    if (refusalReason && !options.force) {
+      await this.addActivityLog({
+        ticketId,
+        action: "assignment_refused",
+        details: {
+          memberId,
+          memberName: member.name,
+          reason: refusalReason
+        }
+      });
+
+      return ticket;
+    }
+
     const now = new Date();
     const updateData = {
       assignedTo: memberId,
       assignedAt: now,
-      status: "assigned"
+      firstAssignedAt: ticket.firstAssignedAt ?? now,
+      status: ticketWorkflow.assignedState,
+      statusReason: null
     };
 
     const [updatedTicket] = await db
@@ -185,24 +1039,36 @@ export class DatabaseStorage implements IStorage {
       .where(eq(tickets.id, ticketId))
       .returning();
 
+    if (ticket.status !== updatedTicket.status) {
+      await this.recordStatusChange(ticketId, updatedTicket.status);
+    }
+
+    // Assignees keep watching the ticket even after it moves on to someone else
+    await this.addWatcher(ticketId, memberId);
+
     // Add assignment activity log
     await this.addActivityLog({
       ticketId,
       action: "assigned",
-      details: { memberId, memberName: member.name }
+      details: { memberId, memberName: member.name, ...(refusalReason && { forced: true, overridden: refusalReason }) }
     });
 
     return updatedTicket;
   }
 
-  async completeTicket(ticketId: number): Promise<Ticket | undefined> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
+  async completeTicket(ticketId: number, options: CompleteTicketOptions = {}): Promise<Ticket | undefined> {
+    const ticket = await this.getTicket(ticketId);
     if (!ticket) return undefined;
 
+    const ticketWorkflow = await this.getWorkflow(ticket.projectId);
+    assertTransition(ticket.status, ticketWorkflow.completedState, ticketWorkflow);
+    await this.assertBlockersDone(ticketId, options.force);
+
     const now = new Date();
     const updateData = {
       completedAt: now,
-      status: "completed"
+      status: ticketWorkflow.completedState,
+      statusReason: null
     };
 
     const [updatedTicket] = await db
@@ -211,6 +1077,8 @@ export class DatabaseStorage implements IStorage {
       .where(eq(tickets.id, ticketId))
       .returning();
 
+    await this.recordStatusChange(ticketId, updatedTicket.status);
+
     // Add completion activity log
     let completedBy = "Unknown";
     if (ticket.assignedTo) {
@@ -225,20 +1093,28 @@ export class DatabaseStorage implements IStorage {
       action: "completed",
       details: { 
         completedAt: now,
-        completedBy
+        completedBy,
+        ...(options.force && { forced: true })
       }
     });
 
+    await this.completeParentIfDone(updatedTicket);
+
     return updatedTicket;
   }
 
   async reopenTicket(ticketId: number): Promise<Ticket | undefined> {
-    const [ticket] = await db.select().from(tickets).where(eq(tickets.id, ticketId));
+    const ticket = await this.getTicket(ticketId);
     if (!ticket) return undefined;
 
+    const ticketWorkflow = await this.getWorkflow(ticket.projectId);
+    const status = ticket.assignedTo ? ticketWorkflow.assignedState : ticketWorkflow.initialState;
+    assertTransition(ticket.status, status, ticketWorkflow);
+
     const updateData = {
       completedAt: null,
-      status: ticket.assignedTo ? "assigned" : "pending"
+      status,
+      statusReason: null
     };
 
     const [updatedTicket] = await db
@@ -247,6 +1123,8 @@ export class DatabaseStorage implements IStorage {
       .where(eq(tickets.id, ticketId))
       .returning();
 
+    await this.recordStatusChange(ticketId, updatedTicket.status);
+
     // Add reopen activity log
     await this.addActivityLog({
       ticketId,
@@ -257,6 +1135,357 @@ export class DatabaseStorage implements IStorage {
     return updatedTicket;
   }
 
+  // Move a ticket to any status the workflow allows from its current one
+  async transitionTicket(
+    ticketId: number,
+    status: string,
+    reason?: string,
+    options: CompleteTicketOptions = {},
+  ): Promise<Ticket | undefined> {
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket) return undefined;
+
+    const ticketWorkflow = await this.getWorkflow(ticket.projectId);
+    assertTransition(ticket.status, status, ticketWorkflow);
+    const assignee = getAssigneeAfterTransition(ticketWorkflow, ticket.assignedTo, status);
+    if ("error" in assignee) {
+      throw new ConflictError(assignee.error);
+    }
+    const unassigned = ticket.assignedTo !== null && assignee.assignedTo === null;
+
+    // Entering a done status closes the ticket, leaving one reopens it
+    const wasOpen = isOpen(ticket.status, ticketWorkflow);
+    const nowOpen = isOpen(status, ticketWorkflow);
+    if (wasOpen && !nowOpen) {
+      await this.assertBlockersDone(ticketId, options.force);
+    }
+    const updateData = {
+      status,
+      statusReason: reason ?? null,
+      ...(unassigned && { assignedTo: null, assignedAt: null }),
+      ...(wasOpen && !nowOpen && { completedAt: new Date() }),
+      ...(!wasOpen && nowOpen && { completedAt: null }),
+    };
+
+    const [updatedTicket] = await db
+      .update(tickets)
+      .set(updateData)
+      .where(eq(tickets.id, ticketId))
+      .returning();
+
+    if (ticket.status !== status) {
+      await this.recordStatusChange(ticketId, status, reason);
+    }
+
+    await this.addActivityLog({
+      ticketId,
+      action: "status_changed",
+      details: { from: ticket.status, to: status, ...(reason && { reason }), ...(unassigned && { unassignedFrom: ticket.assignedTo }) }
+    });
+
+    if (wasOpen && !nowOpen) {
+      await this.completeParentIfDone(updatedTicket);
+    }
+
+    return updatedTicket;
+  }
+
+  // Time-in-status operations
+  async getStatusPeriods(ticketId?: number): Promise<TicketStatusPeriod[]> {
+    const query = db.select().from(ticketStatusPeriods);
+    const periods = ticketId !== undefined
+      ? query.where(eq(ticketStatusPeriods.ticketId, ticketId))
+      : query;
+    return periods.orderBy(asc(ticketStatusPeriods.startedAt));
+  }
+
+  // Dependency operations
+  async getTicketDependencies(ticketId?: number): Promise<TicketDependency[]> {
+    const query = db.select().from(ticketDependencies);
+    const links = ticketId !== undefined
+      ? query.where(or(eq(ticketDependencies.ticketId, ticketId), eq(ticketDependencies.blockedById, ticketId)))
+      : query;
+    return links.orderBy(asc(ticketDependencies.createdAt));
+  }
+
+  async addTicketDependency(dependency: InsertTicketDependency): Promise<TicketDependency | undefined> {
+    const linked = await db
+      .select()
+      .from(tickets)
+      .where(and(inArray(tickets.id, [dependency.ticketId, dependency.blockedById]), isNull(tickets.deletedAt)));
+    if (linked.length < 2) return undefined;
+
+    const links = await this.getTicketDependencies();
+
+    if (links.some(link => link.ticketId === dependency.ticketId && link.blockedById === dependency.blockedById)) {
+      throw new ConflictError(`Ticket #${dependency.ticketId} is already blocked by #${dependency.blockedById}`);
+    }
+
+    const cycle = findDependencyCycle(links, dependency.ticketId, dependency.blockedById);
+    if (cycle) {
+      throw new ConflictError(`This dependency would create a cycle: ${cycle.map(id => `#${id}`).join(" → ")}`);
+    }
+
+    const [newDependency] = await db.insert(ticketDependencies).values(dependency).returning();
+
+    await this.addActivityLog({
+      ticketId: dependency.ticketId,
+      action: "dependency_added",
+      details: { blockedById: dependency.blockedById }
+    });
+
+    return newDependency;
+  }
+
+  async removeTicketDependency(id: number): Promise<boolean> {
+    const [removed] = await db.delete(ticketDependencies).where(eq(ticketDependencies.id, id)).returning();
+    if (!removed) return false;
+
+    await this.addActivityLog({
+      ticketId: removed.ticketId,
+      action: "dependency_removed",
+      details: { blockedById: removed.blockedById }
+    });
+
+    return true;
+  }
+
+  // Refuse members who are not on the project's roster
+  private async assertProjectMembers(projectId: number, memberIds: number[]) {
+    if (memberIds.length === 0) return;
+
+    const roster = new Set((await this.getTeamMembers(projectId)).map(member => member.id));
+    const outsiders = memberIds.filter(memberId => !roster.has(memberId));
+    if (outsiders.length > 0) {
+      throw new ConflictError(`Not members of this project: ${outsiders.map(id => `#${id}`).join(", ")}`);
+    }
+  }
+
+  // Workflow the project's tickets follow
+  private async getWorkflow(projectId: number): Promise<WorkflowDefinition> {
+    return getProjectWorkflow(await this.getProject(projectId));
+  }
+
+  // Complete the ticket's parent when it asks for it and this was its last open subtask
+  private async completeParentIfDone(ticket: Ticket) {
+    if (ticket.parentId === null) return;
+
+    const [parent] = await db.select().from(tickets).where(eq(tickets.id, ticket.parentId));
+    if (!parent || parent.deletedAt || !parent.completeWithSubtasks) return;
+
+    const parentWorkflow = await this.getWorkflow(parent.projectId);
+    if (!isOpen(parent.status, parentWorkflow)) return;
+
+    const subtasks = await this.getSubtasks(parent.id);
+    if (subtasks.some(subtask => isOpen(subtask.status, parentWorkflow))) return;
+
+    try {
+      await this.completeTicket(parent.id);
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      await this.addActivityLog({
+        ticketId: parent.id,
+        action: "auto_complete_skipped",
+        details: { reason: error.message }
+      });
+    }
+  }
+
+  // Refuse to close a ticket while tickets blocking it are still open, trashed blockers don't count
+  private async assertBlockersDone(ticketId: number, force = false) {
+    if (force) return;
+
+    const blockers = await db
+      .select({ id: tickets.id, projectId: tickets.projectId, status: tickets.status })
+      .from(ticketDependencies)
+      .innerJoin(tickets, eq(tickets.id, ticketDependencies.blockedById))
+      .where(and(eq(ticketDependencies.ticketId, ticketId), isNull(tickets.deletedAt)));
+
+    const workflowOf = getWorkflowsByProject(await this.getProjects());
+    const openBlockers = blockers.filter(blocker => isOpen(blocker.status, workflowOf(blocker.projectId)));
+    if (openBlockers.length > 0) {
+      throw new ConflictError(
+        `Blocked by open tickets: ${openBlockers.map(blocker => `#${blocker.id}`).join(", ")}`
+      );
+    }
+  }
+
+  // Close the ticket's current status period and open one for the new status
+  private async recordStatusChange(ticketId: number, status: string, reason?: string, executor: Executor = db) {
+    const now = new Date();
+
+    await executor
+      .update(ticketStatusPeriods)
+      .set({ endedAt: now })
+      .where(and(eq(ticketStatusPeriods.ticketId, ticketId), isNull(ticketStatusPeriods.endedAt)));
+
+    await executor.insert(ticketStatusPeriods).values({
+      ticketId,
+      status,
+      reason: reason ?? null,
+      startedAt: now,
+    });
+  }
+
+  // Comment operations
+  async getComments(ticketId: number): Promise<Comment[]> {
+    return db
+      .select()
+      .from(comments)
+      .where(eq(comments.ticketId, ticketId))
+      .orderBy(asc(comments.createdAt));
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async addComment(comment: InsertComment): Promise<Comment> {
+    const [newComment] = await db.insert(comments).values(comment).returning();
+
+    await this.addActivityLog({
+      ticketId: comment.ticketId,
+      action: "commented",
+      details: { commentId: newComment.id, authorId: comment.authorId }
+    });
+
+    return newComment;
+  }
+
+  // Edits keep the previous text in the activity log
+  async updateComment(id: number, body: string): Promise<Comment | undefined> {
+    const comment = await this.getComment(id);
+    if (!comment) return undefined;
+
+    const [updatedComment] = await db
+      .update(comments)
+      .set({ body, updatedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+
+    await this.addActivityLog({
+      ticketId: comment.ticketId,
+      action: "comment_edited",
+      details: { commentId: id, authorId: comment.authorId, previousBody: comment.body }
+    });
+
+    return updatedComment;
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    const [removed] = await db.delete(comments).where(eq(comments.id, id)).returning();
+    if (!removed) return false;
+
+    await this.addActivityLog({
+      ticketId: removed.ticketId,
+      action: "comment_deleted",
+      details: { commentId: id, authorId: removed.authorId, body: removed.body }
+    });
+
+    return true;
+  }
+
+  // Attachment operations, the file contents are handled by the blob store
+  async getAttachments(ticketId: number): Promise<Attachment[]> {
+    return db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.ticketId, ticketId))
+      .orderBy(asc(attachments.createdAt));
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async addAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const [newAttachment] = await db.insert(attachments).values(attachment).returning();
+
+    await this.addActivityLog({
+      ticketId: attachment.ticketId,
+      action: "attachment_added",
+      details: { attachmentId: newAttachment.id, fileName: attachment.fileName, size: attachment.size }
+    });
+
+    return newAttachment;
+  }
+
+  // Returns the removed attachment so its contents can be deleted from the blob store
+  async deleteAttachment(id: number): Promise<Attachment | undefined> {
+    const [removed] = await db.delete(attachments).where(eq(attachments.id, id)).returning();
+    if (!removed) return undefined;
+
+    await this.addActivityLog({
+      ticketId: removed.ticketId,
+      action: "attachment_deleted",
+      details: { attachmentId: id, fileName: removed.fileName }
+    });
+
+    return removed;
+  }
+
+  // Watcher operations
+  async getWatchers(ticketId: number): Promise<TicketWatcher[]> {
+    return db
+      .select()
+      .from(ticketWatchers)
+      .where(eq(ticketWatchers.ticketId, ticketId))
+      .orderBy(asc(ticketWatchers.createdAt));
+  }
+
+  // Watching is idempotent, an existing watcher is returned as it is
+  async addWatcher(ticketId: number, memberId: number): Promise<TicketWatcher> {
+    const [added] = await db.insert(ticketWatchers).values({ ticketId, memberId }).onConflictDoNothing().returning();
+    if (added) return added;
+
+    const [existing] = await db
+      .select()
+      .from(ticketWatchers)
+      .where(and(eq(ticketWatchers.ticketId, ticketId), eq(ticketWatchers.memberId, memberId)));
+    return existing;
+  }
+
+  async removeWatcher(ticketId: number, memberId: number): Promise<boolean> {
+    const removed = await db
+      .delete(ticketWatchers)
+      .where(and(eq(ticketWatchers.ticketId, ticketId), eq(ticketWatchers.memberId, memberId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Notification operations, newest first
+  async getNotifications(memberId: number, options: NotificationQueryOptions = {}): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.memberId, memberId), options.unreadOnly ? isNull(notifications.readAt) : undefined))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id));
+  }
+
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    if (!notification || notification.readAt) return notification;
+
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Returns how many notifications were marked
+  async markAllNotificationsRead(memberId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.memberId, memberId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
   // Activity log operations
   async getActivityLogs(ticketId: number): Promise<ActivityLog[]> {
     return db
@@ -266,59 +1495,213 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(activityLogs.timestamp));
   }
 
+  async getActivityLogsByAction(action: string): Promise<ActivityLog[]> {
+    return db
+      .select()
+      .from(activityLogs)
+      .where(eq(activityLogs.action, action))
+      .orderBy(desc(activityLogs.timestamp));
+  }
+
   async addActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
-    const [newLog] = await db
+    return this.insertActivityLog(log, db);
+  }
+
+  private async insertActivityLog(log: InsertActivityLog, executor: Executor): Promise<ActivityLog> {
+    const [newLog] = await executor
       .insert(activityLogs)
       .values(log)
       .returning();
+
+    // Every watcher of the ticket hears about it
+    const watchers = await executor.select().from(ticketWatchers).where(eq(ticketWatchers.ticketId, log.ticketId));
+    if (watchers.length > 0) {
+      await executor.insert(notifications).values(watchers.map(({ memberId }) => ({
+        memberId,
+        ticketId: log.ticketId,
+        activityLogId: newLog.id,
+        action: log.action,
+        createdAt: newLog.timestamp,
+      })));
+    }
     
     return newLog;
   }
 
   // Helper for skill-based assignment
-  async findBestTeamMember(requiredSkills: string[]): Promise<TeamMember | undefined> {
-    if (!requiredSkills.length) return undefined;
+  async findBestTeamMember(ticket: Ticket, strategyName?: string): Promise<TeamMember | undefined> {
+    if (!ticket.skills.length) return undefined;
 
-    const members = await this.getTeamMembers();
-    
-    // Count assigned tickets per member for load balancing
-    const allTickets = await db.select().from(tickets);
-    const assignedTickets = allTickets.filter(ticket => 
-      ticket.status !== "completed" && ticket.assignedTo !== null
+    const evaluations = await this.evaluateCandidates(ticket, strategyName);
+    return selectTeamMember(evaluations);
+  }
+
+  // Rank every team member for a ticket without assigning anything
+  async getAssignmentCandidates(ticketId: number, strategyName?: string): Promise<MemberEvaluation[] | undefined> {
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket) return undefined;
+
+    const evaluations = await this.evaluateCandidates(ticket, strategyName);
+    return rankEvaluations(evaluations);
+  }
+
+  // Compute an optimal matching of open tickets to members without applying it
+  async planAssignments(options: PlanAssignmentsOptions = {}): Promise<AssignmentPlan> {
+    const strategy = getAssignmentStrategy(options.strategy);
+    const projectId = options.projectId ?? defaultProjectId;
+    const members = await this.getTeamMembers(projectId);
+    const allTickets = await this.getTickets(projectId);
+    const projectWorkflow = await this.getWorkflow(projectId);
+
+    // Locked tickets are never moved by rebalancing
+    const plannedTickets = allTickets.filter(ticket =>
+      ticket.status === projectWorkflow.initialState ||
+      (options.includeAssigned && ticket.status === projectWorkflow.assignedState && !ticket.assignmentLocked)
     );
-    
-    const assignedTicketCount = new Map<number, number>();
-    for (const ticket of assignedTickets) {
-      if (ticket.assignedTo) {
-        const count = assignedTicketCount.get(ticket.assignedTo) || 0;
-        assignedTicketCount.set(ticket.assignedTo, count + 1);
+
+    // Tickets being planned free up their current assignee's load and capacity
+    const snapshot = await this.buildTeamSnapshot(new Set(plannedTickets.map(ticket => ticket.id)));
+    const candidates = plannedTickets.map(ticket => ({
+      ticket,
+      evaluations: evaluateTeamMembers(members, createAssignmentContext(ticket, snapshot), strategy),
+    }));
+
+    const remainingCapacity = new Map<number, number>();
+    for (const member of members) {
+      if (member.maxOpenTickets !== null) {
+        const openTickets = snapshot.openTickets.get(member.id) || 0;
+        remainingCapacity.set(member.id, Math.max(member.maxOpenTickets - openTickets, 0));
       }
     }
 
-    // Score each team member based on skill match and current workload
-    let bestMember: TeamMember | undefined;
-    let bestScore = -1;
+    const project = await this.getProject(projectId);
+    return planOptimalAssignments(candidates, members, remainingCapacity, project?.priorities ?? defaultPriorities);
+  }
 
-    for (const member of members) {
-      // Calculate skill match score (number of matching skills)
-      const matchingSkills = requiredSkills.filter(skill => 
-        member.skills.includes(skill)
-      );
-      
-      if (matchingSkills.length === 0) continue; // Skip if no skill match
+  // Carry out a plan in one transaction. Each move is checked again against the ticket as it
+  // is now, so a ticket locked, reassigned or constrained since planning fails the whole plan.
+  // Capacity isn't checked per move, the plan already balanced it across all of them.
+  async applyAssignmentPlan(plan: AssignmentPlan): Promise<Ticket[]> {
+    const workflowOf = getWorkflowsByProject(await this.getProjects());
+    return db.transaction(async (tx) => {
+      const applied: Ticket[] = [];
+
+      for (const assignment of plan.assignments) {
+        if (!assignment.changed) continue;
+
+        const [ticket] = await tx
+          .select()
+          .from(tickets)
+          .where(and(eq(tickets.id, assignment.ticketId), isNull(tickets.deletedAt)))
+          .for("update");
+        if (!ticket) {
+          throw new ConflictError(`Ticket #${assignment.ticketId} was deleted after the plan was made`);
+        }
+        if (ticket.assignedTo !== assignment.fromMemberId) {
+          throw new ConflictError(`Ticket #${ticket.id} was reassigned after the plan was made`);
+        }
+        const ticketWorkflow = workflowOf(ticket.projectId);
+        assertTransition(ticket.status, ticketWorkflow.assignedState, ticketWorkflow);
+        if (ticket.assignmentLocked && ticket.assignedTo) {
+          throw new ConflictError(`Ticket #${ticket.id}'s assignment is locked`);
+        }
+
+        const memberId = assignment.toMemberId;
+        const [onRoster] = await tx
+          .select()
+          .from(projectMembers)
+          .where(and(eq(projectMembers.projectId, ticket.projectId), eq(projectMembers.memberId, memberId)));
+        if (!onRoster) {
+          throw new ConflictError(`${assignment.toMemberName} is not a member of ticket #${ticket.id}'s project`);
+        }
+        if (ticket.excludedMembers.includes(memberId)) {
+          throw new ConflictError(`${assignment.toMemberName} is excluded from ticket #${ticket.id}`);
+        }
+        if (ticket.requiredMember !== null && ticket.requiredMember !== memberId) {
+          throw new ConflictError(`Ticket #${ticket.id} is pinned to another team member`);
+        }
 
-      // Calculate score based on skill match and inverse of current workload
-      const workload = assignedTicketCount.get(member.id) || 0;
-      const workloadFactor = 1 / (workload + 1); // +1 to avoid division by zero
-      const score = matchingSkills.length * workloadFactor;
+        const now = new Date();
+        const [updatedTicket] = await tx
+          .update(tickets)
+          .set({
+            assignedTo: memberId,
+            assignedAt: now,
+            firstAssignedAt: ticket.firstAssignedAt ?? now,
+            status: ticketWorkflow.assignedState,
+            statusReason: null
+          })
+          .where(eq(tickets.id, ticket.id))
+          .returning();
 
-      if (score > bestScore) {
-        bestScore = score;
-        bestMember = member;
+        if (ticket.status !== updatedTicket.status) {
+          await this.recordStatusChange(ticket.id, updatedTicket.status, undefined, tx);
+        }
+
+        await tx.insert(ticketWatchers).values({ ticketId: ticket.id, memberId }).onConflictDoNothing();
+        await this.insertActivityLog({
+          ticketId: ticket.id,
+          action: "assigned",
+          details: { memberId, memberName: assignment.toMemberName, optimized: true }
+        }, tx);
+
+        applied.push(updatedTicket);
       }
+
+      return applied;
+    });
+  }
+
+  // Score every team member for the ticket under the chosen strategy
+  private async evaluateCandidates(ticket: Ticket, strategyName?: string): Promise<MemberEvaluation[]> {
+    const strategy = getAssignmentStrategy(strategyName);
+    const members = await this.getTeamMembers(ticket.projectId);
+    const context = await this.buildAssignmentContext(ticket);
+
+    return evaluateTeamMembers(members, context, strategy);
+  }
+
+  // Gather the context strategies score members against for a single ticket
+  private async buildAssignmentContext(ticket: Ticket): Promise<AssignmentContext> {
+    // The ticket being assigned doesn't count towards anyone's load
+    const snapshot = await this.buildTeamSnapshot(new Set([ticket.id]));
+    return createAssignmentContext(ticket, snapshot);
+  }
+
+  // Gather current workload, assignment history and absences, ignoring the excluded tickets' load
+  private async buildTeamSnapshot(excludedTicketIds: Set<number>): Promise<TeamSnapshot> {
+    const allTickets = await this.getTickets();
+    const allProjects = await this.getProjects();
+    const prioritiesByProject = new Map(allProjects.map(project => [project.id, project.priorities]));
+    const workflowOf = getWorkflowsByProject(allProjects);
+
+    // Count and weigh assigned tickets per member for load balancing
+    const openTickets = new Map<number, number>();
+    const workload = new Map<number, number>();
+    const lastAssignedAt = new Map<number, Date>();
+    const now = new Date();
+
+    for (const other of allTickets) {
+      if (!other.assignedTo) continue;
+
+      if (isOpen(other.status, workflowOf(other.projectId)) && !excludedTicketIds.has(other.id)) {
+        openTickets.set(other.assignedTo, (openTickets.get(other.assignedTo) || 0) + 1);
+        workload.set(other.assignedTo, (workload.get(other.assignedTo) || 0) + getTicketLoad(other, prioritiesByProject.get(other.projectId) ?? defaultPriorities, now));
+      }
+
+      const previous = lastAssignedAt.get(other.assignedTo);
+      if (other.assignedAt && (!previous || other.assignedAt > previous)) {
+        lastAssignedAt.set(other.assignedTo, other.assignedAt);
+      }
+    }
+
+    // Group out-of-office windows by member
+    const outOfOffice = new Map<number, OutOfOfficeWindow[]>();
+    for (const window of await this.getOutOfOfficeWindows()) {
+      outOfOffice.set(window.memberId, [...(outOfOffice.get(window.memberId) || []), window]);
     }
 
-    return bestMember;
+    return { openTickets, workload, lastAssignedAt, outOfOffice };
   }
 }
 
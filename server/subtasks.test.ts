@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createsParentCycle, getSubtaskProgress } from "./subtasks";
+import type { Ticket } from "@shared/schema";
+
+const ticket = (id: number, parentId: number | null = null, status = "pending"): Ticket =>
+  ({ id, parentId, status }) as Ticket;
+
+describe("createsParentCycle", () => {
+  // 1 is the parent of 2, which is the parent of 3
+  const tickets = [ticket(1), ticket(2, 1), ticket(3, 2), ticket(4)];
+
+  it("catches a ticket moved under itself or its own subtasks", () => {
+    expect(createsParentCycle(tickets, 1, 1)).toBe(true);
+    expect(createsParentCycle(tickets, 1, 3)).toBe(true);
+    expect(createsParentCycle(tickets, 2, 3)).toBe(true);
+  });
+
+  it("allows moves elsewhere in the tree", () => {
+    expect(createsParentCycle(tickets, 3, 1)).toBe(false);
+    expect(createsParentCycle(tickets, 1, 4)).toBe(false);
+    expect(createsParentCycle(tickets, 4, 3)).toBe(false);
+  });
+
+  it("stops on an existing loop it isn't part of", () => {
+    const looped = [ticket(1, 2), ticket(2, 1), ticket(3)];
+    expect(createsParentCycle(looped, 3, 1)).toBe(false);
+  });
+});
+
+describe("getSubtaskProgress", () => {
+  it("counts closed subtasks as done", () => {
+    expect(getSubtaskProgress([ticket(2, 1, "completed"), ticket(3, 1, "blocked"), ticket(4, 1)]))
+      .toEqual({ total: 3, completed: 1, percent: 33 });
+    expect(getSubtaskProgress([])).toEqual({ total: 0, completed: 0, percent: 0 });
+  });
+});
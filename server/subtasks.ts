@@ -0,0 +1,35 @@
+import type { Ticket } from "@shared/schema";
+import type { WorkflowDefinition } from "@shared/workflow";
+import { workflow, isOpen } from "./workflow";
+
+// Progress of a parent ticket, computed from its subtasks
+export interface SubtaskProgress {
+  total: number;
+  completed: number;
+  // Share of subtasks done, 0-100
+  percent: number;
+}
+
+export function getSubtaskProgress(subtasks: Ticket[], definition: WorkflowDefinition = workflow): SubtaskProgress {
+  const completed = subtasks.filter(subtask => !isOpen(subtask.status, definition)).length;
+  return {
+    total: subtasks.length,
+    completed,
+    percent: subtasks.length ? Math.round((completed / subtasks.length) * 100) : 0,
+  };
+}
+
+// Check whether making a ticket a subtask of the given parent would put it under itself
+export function createsParentCycle(tickets: Ticket[], ticketId: number, parentId: number): boolean {
+  const parents = new Map(tickets.map(ticket => [ticket.id, ticket.parentId]));
+  const visited = new Set<number>();
+
+  let current: number | null | undefined = parentId;
+  while (current != null && !visited.has(current)) {
+    if (current === ticketId) return true;
+    visited.add(current);
+    current = parents.get(current);
+  }
+
+  return false;
+}
@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { trashConfig } from "./config";
+import { getBlobStore } from "./blobs";
+import { log } from "./vite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently remove tickets that have been in the trash longer than the retention period
+export async function purgeExpiredTickets(now: Date = new Date()): Promise<void> {
+  const cutoff = new Date(now.getTime() - trashConfig.retentionDays * DAY_MS);
+  const purged = await storage.purgeDeletedTickets(cutoff);
+
+  // Drop the attachment contents once their rows are gone
+  await Promise.all(purged.attachments.map(attachment => getBlobStore().delete(attachment.storageKey)));
+
+  if (purged.ticketIds.length > 0) {
+    log(`purged ${purged.ticketIds.length} deleted tickets`, "trash");
+  }
+}
+
+function runPurge() {
+  purgeExpiredTickets().catch(error => console.error("Error purging deleted tickets:", error));
+}
+
+// Purge once now and then periodically, returning a function that stops it
+export function startTrashPurge(): () => void {
+  if (trashConfig.purgeIntervalMs <= 0) return () => {};
+
+  runPurge();
+  const timer = setInterval(runPurge, trashConfig.purgeIntervalMs);
+  return () => clearInterval(timer);
+}
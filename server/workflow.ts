@@ -0,0 +1,68 @@
+import fs from "fs";
+import {
+  defaultWorkflow,
+  workflowDefinitionSchema,
+  canTransition,
+  isOpenStatus,
+  type WorkflowDefinition,
+} from "@shared/workflow";
+import type { Project, TicketStatusPeriod } from "@shared/schema";
+import { workflowConfig } from "./config";
+import { ConflictError } from "./errors";
+
+// Load the configured workflow, failing fast on an invalid definition
+function loadWorkflow(): WorkflowDefinition {
+  if (!workflowConfig.definitionFile) return defaultWorkflow;
+
+  const raw = JSON.parse(fs.readFileSync(workflowConfig.definitionFile, "utf-8"));
+  const result = workflowDefinitionSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(
+      `Invalid workflow definition in ${workflowConfig.definitionFile}: ${result.error.message}`,
+    );
+  }
+
+  return result.data;
+}
+
+// Workflow in effect for this server
+export const workflow = loadWorkflow();
+
+// Workflow a project's tickets follow, this server's unless the project has its own
+export function getProjectWorkflow(project?: Pick<Project, "workflow">): WorkflowDefinition {
+  return project?.workflow ?? workflow;
+}
+
+// Look up each project's workflow, for tickets that may come from several projects
+export function getWorkflowsByProject(projects: Project[]): (projectId: number) => WorkflowDefinition {
+  const workflows = new Map(projects.map(project => [project.id, getProjectWorkflow(project)]));
+  return projectId => workflows.get(projectId) ?? workflow;
+}
+
+// Throw a conflict unless the workflow allows moving between the two statuses
+export function assertTransition(from: string, to: string, definition: WorkflowDefinition = workflow) {
+  if (!canTransition(definition, from, to)) {
+    throw new ConflictError(`Cannot move a ticket from "${from}" to "${to}"`);
+  }
+}
+
+// Check whether a status counts as open work
+export function isOpen(status: string, definition: WorkflowDefinition = workflow): boolean {
+  return isOpenStatus(definition, status);
+}
+
+// Total milliseconds spent in each status, counting the current period up to now
+export function getTimeInStatus(
+  periods: TicketStatusPeriod[],
+  now: Date = new Date(),
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+
+  for (const period of periods) {
+    const end = period.endedAt ?? now;
+    totals[period.status] = (totals[period.status] || 0) + (end.getTime() - period.startedAt.getTime());
+  }
+
+  return totals;
+}
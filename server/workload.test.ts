@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { getDeadlineWeight, getPriorityWeight, getTicketLoad } from "./workload";
+import { defaultPriorities } from "@shared/schema";
+
+const HOUR_MS = 3_600_000;
+const now = new Date("2025-06-02T12:00:00Z");
+const inHours = (hours: number) => new Date(now.getTime() + hours * HOUR_MS);
+
+describe("getDeadlineWeight", () => {
+  it("weighs deadlines by how soon they are due", () => {
+    expect(getDeadlineWeight(inHours(-1), now)).toBe(3);
+    expect(getDeadlineWeight(inHours(24), now)).toBe(2);
+    expect(getDeadlineWeight(inHours(25), now)).toBe(1.5);
+    expect(getDeadlineWeight(inHours(7 * 24), now)).toBe(1.5);
+    expect(getDeadlineWeight(inHours(7 * 24 + 1), now)).toBe(1);
+  });
+});
+
+describe("getTicketLoad", () => {
+  it("multiplies the priority weight by the deadline weight", () => {
+    // High weighs 3, low 1
+    expect(getTicketLoad({ priority: "high", deadline: inHours(-1) }, defaultPriorities, now)).toBe(9);
+    expect(getTicketLoad({ priority: "low", deadline: inHours(30 * 24) }, defaultPriorities, now)).toBe(1);
+  });
+
+  it("counts priorities the project doesn't know as 1", () => {
+    expect(getPriorityWeight(defaultPriorities, "someday")).toBe(1);
+    expect(getTicketLoad({ priority: "someday", deadline: inHours(12) }, defaultPriorities, now)).toBe(2);
+  });
+
+  it("uses the weights of the ticket's own project", () => {
+    const priorities = [{ key: "p1", label: "P1", weight: 10, color: "#ef4444" }];
+    expect(getTicketLoad({ priority: "p1", deadline: inHours(48) }, priorities, now)).toBe(15);
+  });
+});
@@ -0,0 +1,28 @@
+import type { PriorityLevel, Ticket } from "@shared/schema";
+import { workloadConfig } from "./config";
+
+const DAY_MS = 86_400_000;
+
+// Multiplier for how much pressure a deadline puts on the assignee right now
+export function getDeadlineWeight(deadline: Date, now: Date = new Date()): number {
+  const { deadlineWeights } = workloadConfig;
+  const remaining = deadline.getTime() - now.getTime();
+  if (remaining < 0) return deadlineWeights.overdue;
+  if (remaining <= DAY_MS) return deadlineWeights.day;
+  if (remaining <= 7 * DAY_MS) return deadlineWeights.week;
+  return deadlineWeights.later;
+}
+
+// Weight of a priority in its project's scheme, unknown priorities count as 1
+export function getPriorityWeight(priorities: PriorityLevel[], priority: string): number {
+  return priorities.find(level => level.key === priority)?.weight ?? 1;
+}
+
+// Load a single open ticket adds to its assignee, weighed by its project's priority scheme
+export function getTicketLoad(
+  ticket: Pick<Ticket, "priority" | "deadline">,
+  priorities: PriorityLevel[],
+  now: Date = new Date(),
+): number {
+  return getPriorityWeight(priorities, ticket.priority) * getDeadlineWeight(ticket.deadline, now);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { buildCustomFieldsSchema, extendTicketSchema } from "./fields";
+import type { CustomFieldDefinition } from "./schema";
+
+const field = (key: string, type: CustomFieldDefinition["type"], overrides: Partial<CustomFieldDefinition> = {}): CustomFieldDefinition => ({
+  id: 1,
+  projectId: 1,
+  key,
+  label: key,
+  type,
+  options: [],
+  required: false,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const definitions = [
+  field("customer", "text", { required: true }),
+  field("estimate", "number"),
+  field("due_on", "date"),
+  field("severity", "single_select", { options: ["minor", "major"] }),
+  field("platforms", "multi_select", { options: ["web", "ios", "android"] }),
+];
+
+describe("buildCustomFieldsSchema", () => {
+  const schema = buildCustomFieldsSchema(definitions);
+
+  it("accepts values matching each field's type", () => {
+    expect(schema.safeParse({
+      customer: "Acme",
+      estimate: 2.5,
+      due_on: "2025-06-30",
+      severity: "major",
+      platforms: ["web", "ios"],
+    }).success).toBe(true);
+    expect(schema.safeParse({ customer: "Acme" }).success).toBe(true);
+  });
+
+  it("rejects values of the wrong type or outside the options", () => {
+    expect(schema.safeParse({ customer: "Acme", estimate: "2" }).success).toBe(false);
+    expect(schema.safeParse({ customer: "Acme", estimate: Infinity }).success).toBe(false);
+    expect(schema.safeParse({ customer: "Acme", due_on: "30/06/2025" }).success).toBe(false);
+    expect(schema.safeParse({ customer: "Acme", severity: "critical" }).success).toBe(false);
+    expect(schema.safeParse({ customer: "Acme", platforms: ["web", "linux"] }).success).toBe(false);
+  });
+
+  it("requires required fields and rejects unknown keys", () => {
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(schema.safeParse({ customer: "Acme", color: "red" }).success).toBe(false);
+  });
+});
+
+describe("extendTicketSchema", () => {
+  const ticket = {
+    title: "Broken login",
+    description: "Users can't sign in",
+    skills: ["Frontend"],
+    deadline: "2999-01-01T00:00:00Z",
+    priority: "high",
+  };
+
+  it("only demands custom fields when one is required", () => {
+    expect(extendTicketSchema([field("estimate", "number")]).safeParse(ticket).success).toBe(true);
+    expect(extendTicketSchema(definitions).safeParse(ticket).success).toBe(false);
+    expect(extendTicketSchema(definitions).safeParse({ ...ticket, customFields: { customer: "Acme" } }).success).toBe(true);
+  });
+});
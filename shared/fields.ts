@@ -0,0 +1,63 @@
+import { z } from "zod";
+import {
+  insertTicketSchema,
+  deadlineSchema,
+  upcomingDeadlineSchema,
+  type CustomFieldDefinition,
+  type PriorityLevel,
+} from "./schema";
+
+// Validation for a single custom field value
+function getValueSchema(definition: CustomFieldDefinition): z.ZodTypeAny {
+  const isOption = (value: string) => definition.options.includes(value);
+  const optionMessage = `Expected one of: ${definition.options.join(", ")}`;
+
+  switch (definition.type) {
+    case "text":
+      return z.string().max(1000);
+    case "number":
+      return z.number().finite();
+    case "date":
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+    case "single_select":
+      return z.string().refine(isOption, optionMessage);
+    case "multi_select":
+      return z.array(z.string().refine(isOption, optionMessage));
+  }
+}
+
+// Schema for a ticket's custom field values; unknown keys are rejected
+export function buildCustomFieldsSchema(definitions: CustomFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const definition of definitions) {
+    const valueSchema = getValueSchema(definition);
+    shape[definition.key] = definition.required ? valueSchema : valueSchema.optional();
+  }
+  return z.object(shape).strict();
+}
+
+// Priority that has to be one of the project's levels
+export function buildPrioritySchema(priorities: PriorityLevel[]) {
+  const keys = priorities.map(level => level.key);
+  return z.string().refine(priority => keys.includes(priority), `Expected one of: ${keys.join(", ")}`);
+}
+
+export interface TicketSchemaOptions {
+  // Accept deadlines that have already passed
+  allowPastDeadline?: boolean;
+  // Priority scheme of the ticket's project, any priority is accepted when unset
+  priorities?: PriorityLevel[];
+}
+
+// insertTicketSchema with custom fields checked against the current definitions,
+// the priority against the project's scheme and, unless allowed, deadlines in the past rejected
+export function extendTicketSchema(definitions: CustomFieldDefinition[], options: TicketSchemaOptions = {}) {
+  const customFieldsSchema = buildCustomFieldsSchema(definitions);
+  return insertTicketSchema.extend({
+    deadline: options.allowPastDeadline ? deadlineSchema : upcomingDeadlineSchema,
+    priority: options.priorities ? buildPrioritySchema(options.priorities) : insertTicketSchema.shape.priority,
+    customFields: definitions.some(definition => definition.required)
+      ? customFieldsSchema
+      : customFieldsSchema.optional(),
+  });
+}
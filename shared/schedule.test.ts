@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseCronSchedule, isValidCronSchedule, getNextOccurrence, hasUpcomingOccurrence } from "./schedule";
+
+// Next occurrence of the expression after the given time
+function next(expression: string, after: Date): Date | null {
+  const schedule = parseCronSchedule(expression);
+  if (!schedule) throw new Error(`Invalid schedule ${expression}`);
+  return getNextOccurrence(schedule, after);
+}
+
+describe("parseCronSchedule", () => {
+  it("accepts lists, ranges, steps and aliases", () => {
+    for (const expression of ["0 9 * * 1", "*/15 * * * *", "0 8-18/2 1,15 * 1-5", "@daily", "@Weekly"]) {
+      expect(isValidCronSchedule(expression)).toBe(true);
+    }
+  });
+
+  it("rejects malformed and out-of-range fields", () => {
+    for (const expression of ["", "* * * *", "60 * * * *", "0 24 * * *", "0 0 0 * *", "0 0 * 13 *", "0 0 * * 8", "5-1 * * * *", "*/0 * * * *", "@never"]) {
+      expect(isValidCronSchedule(expression)).toBe(false);
+    }
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect(parseCronSchedule("0 0 * * 7")?.daysOfWeek.has(0)).toBe(true);
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("is strictly after the given time", () => {
+    const after = new Date(2025, 0, 6, 9, 0, 0);
+    expect(next("0 9 * * *", after)).toEqual(new Date(2025, 0, 7, 9, 0));
+  });
+
+  it("skips to the matching weekday", () => {
+    // 2025-01-01 is a Wednesday, the next Monday is the 6th
+    expect(next("30 8 * * 1", new Date(2025, 0, 1, 12, 0))).toEqual(new Date(2025, 0, 6, 8, 30));
+  });
+
+  it("fires on either day field when both are restricted", () => {
+    // The 10th or any Friday; 2025-01-03 is a Friday
+    expect(next("0 0 10 * 5", new Date(2025, 0, 1))).toEqual(new Date(2025, 0, 3));
+  });
+
+  it("rolls over month and year ends", () => {
+    expect(next("0 0 1 * *", new Date(2025, 11, 15))).toEqual(new Date(2026, 0, 1));
+  });
+
+  it("finds February 29th in the next leap year", () => {
+    expect(next("0 0 29 2 *", new Date(2025, 2, 1))).toEqual(new Date(2028, 1, 29));
+  });
+
+  it("returns null for dates that never exist", () => {
+    expect(next("0 0 31 4 *", new Date(2025, 0, 1))).toBeNull();
+    expect(next("0 0 30 2 *", new Date(2025, 0, 1))).toBeNull();
+  });
+});
+
+describe("hasUpcomingOccurrence", () => {
+  it("tells schedules that run from ones that never do", () => {
+    expect(hasUpcomingOccurrence("0 9 * * 1")).toBe(true);
+    expect(hasUpcomingOccurrence("0 0 31 4 *")).toBe(false);
+    expect(hasUpcomingOccurrence("not a schedule")).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+// Cron-style schedules: "minute hour day-of-month month day-of-week",
+// e.g. "0 9 * * 1" for Mondays at 09:00, evaluated in the server's local time.
+// Fields accept *, numbers, lists (1,15), ranges (1-5) and steps (*/2, 1-10/3).
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Shorthands for common schedules
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+};
+
+// Allowed range of each field, in order
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// How far ahead the next occurrence is searched for, e.g. for "0 0 29 2 *"
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let [start, end] = range === "*" ? [min, max] : range.split("-").map(value => parseInt(value, 10));
+    if (end === undefined) end = stepText ? max : start;
+
+    if (step < 1 || start < min || end > max || start > end) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// Parse a cron expression, returning null when it is invalid
+export function parseCronSchedule(expression: string): CronSchedule | null {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((field, index) => parseField(field, FIELD_RANGES[index]));
+  if (parsed.some(values => values === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as Set<number>[];
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+export function isValidCronSchedule(expression: string): boolean {
+  return parseCronSchedule(expression) !== null;
+}
+
+// Whether the expression will ever fire after the given time; "0 0 31 4 *" (April 31st) parses
+// but never does
+export function hasUpcomingOccurrence(expression: string, after: Date = new Date()): boolean {
+  const schedule = parseCronSchedule(expression);
+  return schedule !== null && getNextOccurrence(schedule, after) !== null;
+}
+
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(day.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(day.getDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+// First occurrence strictly after the given time, or null when there is none in sight
+export function getNextOccurrence(schedule: CronSchedule, after: Date): Date | null {
+  const start = new Date(after);
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+
+  const hours = Array.from(schedule.hours).sort((a, b) => a - b);
+  const minutes = Array.from(schedule.minutes).sort((a, b) => a - b);
+
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    if (matchesDay(schedule, day)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const candidate = new Date(day);
+          candidate.setHours(hour, minute, 0, 0);
+          if (candidate >= start) return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return null;
+}
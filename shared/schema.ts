@@ -1,44 +1,438 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, unique } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidCronSchedule, hasUpcomingOccurrence } from "./schedule";
+import { workflowDefinitionSchema, type WorkflowDefinition } from "./workflow";
+
+// One level of a project's priority scheme; weight scales the load a ticket of it adds
+export interface PriorityLevel {
+  key: string;
+  label: string;
+  // Hex color, e.g. #ef4444
+  color: string;
+  weight: number;
+}
+
+// Priority scheme projects start with, listed from lowest to highest
+export const defaultPriorities: PriorityLevel[] = [
+  { key: "low", label: "Low", color: "#22c55e", weight: 1 },
+  { key: "medium", label: "Medium", color: "#eab308", weight: 2 },
+  { key: "high", label: "High", color: "#ef4444", weight: 3 },
+];
+
+export const priorityLevelsSchema = z.array(z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/i, "Use letters, digits and underscores"),
+  label: z.string().trim().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #3b82f6"),
+  weight: z.number().min(0),
+})).min(1).refine(
+  (levels) => new Set(levels.map(level => level.key)).size === levels.length,
+  { message: "Priority keys must be unique" }
+);
+
+// Projects partition tickets and team members; each has its own roster, skills, priorities, workflow and ticket numbering
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  // Short prefix for ticket numbers, e.g. APP-12
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(),
+  skills: text("skills").array().notNull(),
+  // Ordered priority scheme tickets of the project choose from
+  priorities: jsonb("priorities").$type<PriorityLevel[]>().notNull().default(defaultPriorities),
+  // Workflow the project's tickets follow, the server's configured workflow when unset
+  workflow: jsonb("workflow").$type<WorkflowDefinition>(),
+  // Number the project's next ticket gets
+  nextTicketNumber: integer("next_ticket_number").notNull().default(1),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  key: z.string().regex(/^[A-Z][A-Z0-9]{1,9}$/, "Use 2-10 uppercase letters or digits"),
+  name: z.string().trim().min(1),
+  skills: z.array(z.string().trim().min(1)).min(1),
+  priorities: priorityLevelsSchema.optional(),
+  workflow: workflowDefinitionSchema.nullable().optional(),
+}).pick({
+  key: true,
+  name: true,
+  skills: true,
+  priorities: true,
+  workflow: true,
+});
+
+// Project used by the unscoped /api routes and for data created before projects existed
+export const defaultProjectId = 1;
 
 // Team member model
 export const teamMembers = pgTable("team_members", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   skills: text("skills").array().notNull(),
+  // Proficiency per skill, from minSkillLevel to maxSkillLevel
+  skillLevels: jsonb("skill_levels").$type<Record<string, number>>().notNull().default({}),
   initials: text("initials").notNull(),
+  // Maximum number of open tickets the assigner may give this member, null for no limit
+  maxOpenTickets: integer("max_open_tickets"),
+  // Recurring weekly working days, 0 (Sunday) to 6 (Saturday)
+  workingDays: integer("working_days").array().notNull().default(sql`'{1,2,3,4,5}'`),
 });
 
-export const insertTeamMemberSchema = createInsertSchema(teamMembers).pick({
+// Skill proficiency scale
+export const minSkillLevel = 1;
+export const maxSkillLevel = 5;
+export const defaultSkillLevel = 3;
+
+const skillLevelsSchema = z.record(
+  z.string(),
+  z.number().int().min(minSkillLevel).max(maxSkillLevel),
+);
+
+export const insertTeamMemberSchema = createInsertSchema(teamMembers, {
+  skillLevels: skillLevelsSchema.optional(),
+  maxOpenTickets: z.number().int().min(1).nullable().optional(),
+  workingDays: z.array(z.number().int().min(0).max(6)).optional(),
+}).pick({
   name: true,
   skills: true,
+  skillLevels: true,
   initials: true,
+  maxOpenTickets: true,
+  workingDays: true,
+});
+
+// Which team members work on which projects
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  memberId: integer("member_id").notNull(),
+}, (table) => [
+  unique("project_members_pair").on(table.projectId, table.memberId),
+]);
+
+// Out-of-office date ranges for team members (inclusive)
+export const outOfOfficeWindows = pgTable("out_of_office_windows", {
+  id: serial("id").primaryKey(),
+  memberId: integer("member_id").notNull(),
+  startDate: date("start_date", { mode: "string" }).notNull(),
+  endDate: date("end_date", { mode: "string" }).notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+export const insertOutOfOfficeWindowSchema = createInsertSchema(outOfOfficeWindows, {
+  startDate: dateStringSchema,
+  endDate: dateStringSchema,
+})
+  .pick({
+    memberId: true,
+    startDate: true,
+    endDate: true,
+    reason: true,
+  })
+  .refine((window) => window.endDate >= window.startDate, {
+    message: "End date must not be before start date",
+    path: ["endDate"],
+  });
+
+// Free-form labels describing what a ticket is about, each project has its own
+export const labels = pgTable("labels", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  name: text("name").notNull(),
+  // Hex color, e.g. #3b82f6
+  color: text("color").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("labels_project_name").on(table.projectId, table.name),
+]);
+
+export const insertLabelSchema = createInsertSchema(labels, {
+  name: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #3b82f6"),
+}).pick({
+  name: true,
+  color: true,
+});
+
+// Admin-defined extra fields on a project's tickets, values are kept in tickets.customFields by key
+export const customFieldTypes = ["text", "number", "date", "single_select", "multi_select"] as const;
+
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  type: text("type", { enum: customFieldTypes }).notNull(),
+  // Choices for select fields
+  options: text("options").array().notNull().default(sql`'{}'`),
+  required: boolean("required").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("custom_field_definitions_project_key").on(table.projectId, table.key),
+]);
+
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions, {
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1),
+  options: z.array(z.string().trim().min(1)).optional(),
+}).pick({
+  key: true,
+  label: true,
+  type: true,
+  options: true,
+  required: true,
+}).refine(
+  ({ type, options }) => !type.endsWith("_select") || (options && options.length > 0),
+  { message: "Select fields need at least one option", path: ["options"] }
+);
+
 // Ticket model
 export const tickets = pgTable("tickets", {
   id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().default(defaultProjectId),
+  // Sequential number within the project
+  number: integer("number").notNull(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   skills: text("skills").array().notNull(),
-  deadline: text("deadline").notNull(),
+  // Optional minimum proficiency per required skill
+  minSkillLevels: jsonb("min_skill_levels").$type<Record<string, number>>().notNull().default({}),
+  deadline: timestamp("deadline", { withTimezone: true }).notNull(),
   priority: text("priority").notNull(),
   status: text("status").notNull().default("pending"),
+  // Why the ticket is in its current status, for statuses that require one (e.g. the blocker)
+  statusReason: text("status_reason"),
   assignedTo: integer("assigned_to"),
   assignedAt: timestamp("assigned_at"),
+  // When the ticket was first assigned, which is what response SLAs measure
+  firstAssignedAt: timestamp("first_assigned_at"),
+  // Assignment constraints: a pinned member, members who must never get it, and preferred ones
+  requiredMember: integer("required_member"),
+  excludedMembers: integer("excluded_members").array().notNull().default(sql`'{}'`),
+  preferredMembers: integer("preferred_members").array().notNull().default(sql`'{}'`),
+  // Keeps the current assignee in place when tickets are rebalanced
+  assignmentLocked: boolean("assignment_locked").notNull().default(false),
+  // Labels describing what the work is about
+  labelIds: integer("label_ids").array().notNull().default(sql`'{}'`),
+  // Values of custom fields by definition key
+  customFields: jsonb("custom_fields").$type<Record<string, unknown>>().notNull().default({}),
+  // Parent ticket this one is a subtask of
+  parentId: integer("parent_id"),
+  // Complete this ticket automatically once all of its subtasks are done
+  completeWithSubtasks: boolean("complete_with_subtasks").notNull().default(false),
   completedAt: timestamp("completed_at"),
+  // Team member who filed the ticket, they watch it from the start
+  createdBy: integer("created_by"),
+  // Set while the ticket sits in the trash, it is purged after the retention period
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  unique("tickets_project_number").on(table.projectId, table.number),
+]);
+
+// Response and resolution targets promised for tickets of one of a project's priorities
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  priority: text("priority").notNull(),
+  // Time from creation until the ticket must be assigned
+  responseMinutes: integer("response_minutes").notNull(),
+  // Time from creation until the ticket must be closed
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("sla_policies_project_priority").on(table.projectId, table.priority),
+]);
+
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies, {
+  priority: z.string().trim().min(1),
+  responseMinutes: z.number().int().min(1),
+  resolutionMinutes: z.number().int().min(1),
+}).pick({
+  priority: true,
+  responseMinutes: true,
+  resolutionMinutes: true,
+}).refine(
+  (policy) => policy.resolutionMinutes >= policy.responseMinutes,
+  { message: "Resolution time can't be shorter than response time", path: ["resolutionMinutes"] },
+);
+
+// Deadlines are sent as ISO 8601 timestamps with a time zone, e.g. 2025-06-30T17:00:00+02:00
+export const deadlineSchema = z
+  .union([
+    z.date(),
+    z.string().datetime({ offset: true, message: "Expected an ISO 8601 timestamp with a time zone" }),
+  ])
+  .pipe(z.coerce.date());
+
+// Deadline that hasn't passed yet
+export const upcomingDeadlineSchema = deadlineSchema.pipe(
+  z.date().refine((deadline) => deadline.getTime() > Date.now(), { message: "Deadline must be in the future" }),
+);
 
 // Validation schema for new tickets
-export const insertTicketSchema = createInsertSchema(tickets).pick({
+export const insertTicketSchema = createInsertSchema(tickets, {
+  deadline: deadlineSchema,
+  minSkillLevels: skillLevelsSchema.optional(),
+  excludedMembers: z.array(z.number().int()).optional(),
+  preferredMembers: z.array(z.number().int()).optional(),
+  labelIds: z.array(z.number().int()).optional(),
+  // Checked against the field definitions by extendTicketSchema in shared/fields
+  customFields: z.record(z.unknown()).optional(),
+}).pick({
   title: true,
   description: true,
   skills: true,
+  minSkillLevels: true,
   deadline: true,
   priority: true,
   assignedTo: true,
+  requiredMember: true,
+  excludedMembers: true,
+  preferredMembers: true,
+  assignmentLocked: true,
+  labelIds: true,
+  customFields: true,
+  parentId: true,
+  completeWithSubtasks: true,
+  createdBy: true,
+});
+
+// Saved starting points for common kinds of tickets within a project
+export const ticketTemplates = pgTable("ticket_templates", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  name: text("name").notNull(),
+  title: text("title").notNull(),
+  // Description skeleton copied into new tickets
+  description: text("description").notNull(),
+  skills: text("skills").array().notNull(),
+  minSkillLevels: jsonb("min_skill_levels").$type<Record<string, number>>().notNull().default({}),
+  priority: text("priority").notNull(),
+  labelIds: integer("label_ids").array().notNull().default(sql`'{}'`),
+  customFields: jsonb("custom_fields").$type<Record<string, unknown>>().notNull().default({}),
+  // Deadline of new tickets in business days from creation, at least one so it lies ahead;
+  // they need one given when unset
+  deadlineBusinessDays: integer("deadline_business_days"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("ticket_templates_project_name").on(table.projectId, table.name),
+]);
+
+export const insertTicketTemplateSchema = createInsertSchema(ticketTemplates, {
+  name: z.string().trim().min(1).max(100),
+  title: z.string().trim().min(1),
+  minSkillLevels: skillLevelsSchema.optional(),
+  labelIds: z.array(z.number().int()).optional(),
+  customFields: z.record(z.unknown()).optional(),
+  deadlineBusinessDays: z.number().int().min(1).max(365).nullable().optional(),
+}).pick({
+  name: true,
+  title: true,
+  description: true,
+  skills: true,
+  minSkillLevels: true,
+  priority: true,
+  labelIds: true,
+  customFields: true,
+  deadlineBusinessDays: true,
+});
+
+// Tickets created from a template on a cron-style schedule
+export const recurringTickets = pgTable("recurring_tickets", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull(),
+  templateId: integer("template_id").notNull(),
+  // Cron expression, e.g. "0 9 * * 1" for Mondays at 09:00
+  schedule: text("schedule").notNull(),
+  // Deadline in business days after each occurrence, at least one so tickets aren't overdue on arrival
+  deadlineBusinessDays: integer("deadline_business_days").notNull().default(1),
+  active: boolean("active").notNull().default(true),
+  // Next occurrence to create a ticket for; claimed atomically so a restart never repeats one
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRecurringTicketSchema = createInsertSchema(recurringTickets, {
+  schedule: z.string().trim()
+    .refine(isValidCronSchedule, "Expected a cron expression like \"0 9 * * 1\"")
+    .refine(expression => !isValidCronSchedule(expression) || hasUpcomingOccurrence(expression), "This schedule never runs"),
+  deadlineBusinessDays: z.number().int().min(1).max(365).optional(),
+  active: z.boolean().optional(),
+}).pick({
+  templateId: true,
+  schedule: true,
+  deadlineBusinessDays: true,
+  active: true,
+});
+
+// Periods each ticket spent in each status, the current one has no end
+export const ticketStatusPeriods = pgTable("ticket_status_periods", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  status: text("status").notNull(),
+  reason: text("reason"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Dependency links, the ticket cannot be completed until its blocker is
+export const ticketDependencies = pgTable("ticket_dependencies", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  blockedById: integer("blocked_by_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("ticket_dependencies_pair").on(table.ticketId, table.blockedById),
+]);
+
+export const insertTicketDependencySchema = createInsertSchema(ticketDependencies).pick({
+  ticketId: true,
+  blockedById: true,
+}).refine(({ ticketId, blockedById }) => ticketId !== blockedById, {
+  message: "A ticket cannot block itself",
+  path: ["blockedById"],
+});
+
+// Discussion on a ticket by team members
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  authorId: integer("author_id").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+export const insertCommentSchema = createInsertSchema(comments, {
+  body: z.string().trim().min(1, "Comment cannot be empty"),
+}).pick({
+  ticketId: true,
+  authorId: true,
+  body: true,
+});
+
+// Files attached to a ticket, the contents live in the blob store under storageKey
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).pick({
+  ticketId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  storageKey: true,
 });
 
 // Activity log model for ticket history
@@ -56,15 +450,79 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).pick({
   details: true,
 });
 
+// Team members following a ticket besides its assignee
+export const ticketWatchers = pgTable("ticket_watchers", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull(),
+  memberId: integer("member_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("ticket_watchers_pair").on(table.ticketId, table.memberId),
+]);
+
+export const insertTicketWatcherSchema = createInsertSchema(ticketWatchers).pick({
+  memberId: true,
+});
+
+// Activity on a watched ticket delivered to one watcher
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  memberId: integer("member_id").notNull(),
+  ticketId: integer("ticket_id").notNull(),
+  activityLogId: integer("activity_log_id").notNull(),
+  action: text("action").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Export types
+export type Project = typeof projects.$inferSelect;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type ProjectMember = typeof projectMembers.$inferSelect;
+
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
 
+export type OutOfOfficeWindow = typeof outOfOfficeWindows.$inferSelect;
+export type InsertOutOfOfficeWindow = z.infer<typeof insertOutOfOfficeWindowSchema>;
+
+export type Label = typeof labels.$inferSelect;
+export type InsertLabel = z.infer<typeof insertLabelSchema>;
+
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type CustomFieldType = CustomFieldDefinition["type"];
+
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+
 export type Ticket = typeof tickets.$inferSelect;
 export type InsertTicket = z.infer<typeof insertTicketSchema>;
 
+export type TicketTemplate = typeof ticketTemplates.$inferSelect;
+export type InsertTicketTemplate = z.infer<typeof insertTicketTemplateSchema>;
+
+export type RecurringTicket = typeof recurringTickets.$inferSelect;
+export type InsertRecurringTicket = z.infer<typeof insertRecurringTicketSchema>;
+
+export type TicketStatusPeriod = typeof ticketStatusPeriods.$inferSelect;
+
+export type TicketDependency = typeof ticketDependencies.$inferSelect;
+export type InsertTicketDependency = z.infer<typeof insertTicketDependencySchema>;
+
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
+export type TicketWatcher = typeof ticketWatchers.$inferSelect;
+export type InsertTicketWatcher = z.infer<typeof insertTicketWatcherSchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+
 // Available skills for the system
 export const availableSkills = ["Frontend", "Backend", "Database", "Design"];
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { getSlaStatus } from "./sla";
+import type { SlaPolicy } from "./schema";
+
+const MINUTE = 60_000;
+const createdAt = new Date("2025-01-06T09:00:00Z");
+const policy = { responseMinutes: 60, resolutionMinutes: 240 } as SlaPolicy;
+
+const at = (minutes: number) => new Date(createdAt.getTime() + minutes * MINUTE);
+
+describe("getSlaStatus", () => {
+  it("is ok early on and counts down to the response target", () => {
+    const status = getSlaStatus({ createdAt, firstAssignedAt: null, completedAt: null }, policy, at(10));
+
+    expect(status.state).toBe("ok");
+    expect(status.response.dueAt).toEqual(at(60));
+    expect(status.resolution.dueAt).toEqual(at(240));
+    expect(status.nextDueAt).toEqual(at(60));
+  });
+
+  it("is at risk once less than the given share of time is left", () => {
+    const status = getSlaStatus({ createdAt, firstAssignedAt: null, completedAt: null }, policy, at(50), 0.25);
+
+    expect(status.response.state).toBe("at_risk");
+    expect(status.state).toBe("at_risk");
+  });
+
+  it("is breached once an open target is overdue", () => {
+    const status = getSlaStatus({ createdAt, firstAssignedAt: null, completedAt: null }, policy, at(61));
+
+    expect(status.response.state).toBe("breached");
+    expect(status.state).toBe("breached");
+  });
+
+  it("judges met targets by when they were met", () => {
+    const onTime = getSlaStatus({ createdAt, firstAssignedAt: at(30), completedAt: null }, policy, at(120));
+    expect(onTime.response).toEqual({ dueAt: at(60), metAt: at(30), state: "ok" });
+    expect(onTime.nextDueAt).toEqual(at(240));
+
+    const late = getSlaStatus({ createdAt, firstAssignedAt: at(90), completedAt: at(100) }, policy, at(300));
+    expect(late.response.state).toBe("breached");
+    expect(late.resolution.state).toBe("ok");
+    expect(late.state).toBe("breached");
+    expect(late.nextDueAt).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { SlaPolicy, Ticket } from "./schema";
+
+export type SlaState = "ok" | "at_risk" | "breached";
+
+// Progress against one SLA target
+export interface SlaTarget {
+  dueAt: Date;
+  // When the target was met, null while it is still open
+  metAt: Date | null;
+  state: SlaState;
+}
+
+export interface SlaStatus {
+  // Worst of the two targets
+  state: SlaState;
+  response: SlaTarget;
+  resolution: SlaTarget;
+  // Due time of the next target still open, which is what a countdown shows
+  nextDueAt: Date | null;
+}
+
+const MINUTE_MS = 60_000;
+
+const severity: Record<SlaState, number> = { ok: 0, at_risk: 1, breached: 2 };
+
+// A target is at risk once less than the given share of its time is left
+function getTarget(
+  startedAt: Date,
+  minutes: number,
+  metAt: Date | null,
+  now: Date,
+  atRiskRatio: number,
+): SlaTarget {
+  const dueAt = new Date(startedAt.getTime() + minutes * MINUTE_MS);
+
+  let state: SlaState;
+  if (metAt) {
+    state = metAt <= dueAt ? "ok" : "breached";
+  } else if (now > dueAt) {
+    state = "breached";
+  } else {
+    state = dueAt.getTime() - now.getTime() < minutes * MINUTE_MS * atRiskRatio ? "at_risk" : "ok";
+  }
+
+  return { dueAt, metAt, state };
+}
+
+// SLA status of a ticket under its priority's policy. Response is met by the first
+// assignment and resolution by closing the ticket.
+export function getSlaStatus(
+  ticket: Pick<Ticket, "createdAt" | "firstAssignedAt" | "completedAt">,
+  policy: SlaPolicy,
+  now: Date = new Date(),
+  atRiskRatio = 0.25,
+): SlaStatus {
+  const response = getTarget(ticket.createdAt, policy.responseMinutes, ticket.firstAssignedAt, now, atRiskRatio);
+  const resolution = getTarget(ticket.createdAt, policy.resolutionMinutes, ticket.completedAt, now, atRiskRatio);
+
+  const openTargets = [response, resolution].filter(target => !target.metAt);
+
+  return {
+    state: severity[response.state] >= severity[resolution.state] ? response.state : resolution.state,
+    response,
+    resolution,
+    nextDueAt: openTargets.length > 0 ? openTargets[0].dueAt : null,
+  };
+}
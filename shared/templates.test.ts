@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { businessDaysFrom, getTemplateDefaults, resolveDeadline } from "./templates";
+import type { TicketTemplate } from "./schema";
+
+// Thursday 2025-06-05, 15:00 UTC
+const thursday = new Date("2025-06-05T15:00:00Z");
+
+describe("businessDaysFrom", () => {
+  it("skips weekends and keeps the time of day", () => {
+    expect(businessDaysFrom(1, thursday)).toEqual(new Date("2025-06-06T15:00:00Z"));
+    expect(businessDaysFrom(2, thursday)).toEqual(new Date("2025-06-09T15:00:00Z"));
+    expect(businessDaysFrom(10, thursday)).toEqual(new Date("2025-06-19T15:00:00Z"));
+  });
+});
+
+describe("resolveDeadline", () => {
+  it("turns +N into N business days from now", () => {
+    expect(resolveDeadline("+3", thursday)).toBe("2025-06-10T15:00:00.000Z");
+    expect(resolveDeadline(" +1 ", thursday)).toBe("2025-06-06T15:00:00.000Z");
+  });
+
+  it("returns absolute and malformed deadlines unchanged for validation to catch", () => {
+    expect(resolveDeadline("2025-07-01T09:00:00Z", thursday)).toBe("2025-07-01T09:00:00Z");
+    for (const deadline of ["+0", "+1000", "+-2", "3", "+1.5"]) {
+      expect(resolveDeadline(deadline, thursday)).toBe(deadline);
+    }
+  });
+});
+
+describe("getTemplateDefaults", () => {
+  const template = {
+    title: "Onboard customer",
+    description: "Steps",
+    skills: ["Backend"],
+    minSkillLevels: {},
+    priority: "medium",
+    labelIds: [],
+    customFields: {},
+    deadlineBusinessDays: 2,
+  } as unknown as TicketTemplate;
+
+  it("fills in the deadline only for templates that set one", () => {
+    expect(getTemplateDefaults(template, thursday).deadline).toEqual(new Date("2025-06-09T15:00:00Z"));
+    expect(getTemplateDefaults({ ...template, deadlineBusinessDays: null }, thursday)).not.toHaveProperty("deadline");
+  });
+});
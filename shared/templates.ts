@@ -0,0 +1,33 @@
+import { addBusinessDays } from "date-fns";
+import type { InsertTicket, TicketTemplate } from "./schema";
+
+// Relative deadlines are written as "+N", meaning N business days from now; "+0" would be
+// due right away, so N starts at 1
+const RELATIVE_DEADLINE = /^\+([1-9]\d{0,2})$/;
+
+// Same time of day N business days after the given time
+export function businessDaysFrom(days: number, from: Date = new Date()): Date {
+  return addBusinessDays(from, days);
+}
+
+// Turn a relative deadline into a timestamp, absolute deadlines are returned unchanged
+export function resolveDeadline(deadline: string, from: Date = new Date()): string {
+  const match = RELATIVE_DEADLINE.exec(deadline.trim());
+  return match ? businessDaysFrom(parseInt(match[1], 10), from).toISOString() : deadline;
+}
+
+// Ticket fields a template fills in, the deadline only when the template has a relative one
+export function getTemplateDefaults(template: TicketTemplate, from: Date = new Date()): Partial<InsertTicket> {
+  return {
+    title: template.title,
+    description: template.description,
+    skills: template.skills,
+    minSkillLevels: template.minSkillLevels,
+    priority: template.priority,
+    labelIds: template.labelIds,
+    customFields: template.customFields,
+    ...(template.deadlineBusinessDays !== null && {
+      deadline: businessDaysFrom(template.deadlineBusinessDays, from),
+    }),
+  };
+}
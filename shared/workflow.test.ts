@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultWorkflow,
+  workflowDefinitionSchema,
+  canTransition,
+  isOpenStatus,
+  getStatusesInCategory,
+  getAssigneeAfterTransition,
+} from "./workflow";
+
+describe("defaultWorkflow", () => {
+  it("is a valid workflow definition", () => {
+    expect(workflowDefinitionSchema.safeParse(defaultWorkflow).success).toBe(true);
+  });
+
+  it("allows only the listed transitions", () => {
+    expect(canTransition(defaultWorkflow, "pending", "assigned")).toBe(true);
+    expect(canTransition(defaultWorkflow, "assigned", "completed")).toBe(true);
+    expect(canTransition(defaultWorkflow, "completed", "pending")).toBe(true);
+    expect(canTransition(defaultWorkflow, "pending", "completed")).toBe(false);
+    expect(canTransition(defaultWorkflow, "blocked", "completed")).toBe(false);
+    expect(canTransition(defaultWorkflow, "completed", "in_progress")).toBe(false);
+  });
+
+  it("treats done statuses as closed and unknown ones as open", () => {
+    expect(isOpenStatus(defaultWorkflow, "completed")).toBe(false);
+    expect(isOpenStatus(defaultWorkflow, "blocked")).toBe(true);
+    expect(isOpenStatus(defaultWorkflow, "retired")).toBe(true);
+    expect(getStatusesInCategory(defaultWorkflow, "done")).toEqual(["completed"]);
+  });
+});
+
+describe("workflowDefinitionSchema", () => {
+  it("rejects special states and transitions that use unknown states", () => {
+    const result = workflowDefinitionSchema.safeParse({
+      ...defaultWorkflow,
+      completedState: "done",
+      transitions: [...defaultWorkflow.transitions, { from: "pending", to: "archived" }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toEqual([
+      'Unknown state "done"',
+      "Transition pending -> archived uses an unknown state",
+    ]);
+  });
+});
+
+describe("getAssigneeAfterTransition", () => {
+  it("refuses the assigned status for a ticket without an assignee", () => {
+    expect(getAssigneeAfterTransition(defaultWorkflow, null, "assigned")).toHaveProperty("error");
+  });
+
+  it("keeps the assignee when moving into the assigned status", () => {
+    expect(getAssigneeAfterTransition(defaultWorkflow, 7, "assigned")).toEqual({ assignedTo: 7 });
+  });
+
+  it("clears the assignee when the ticket goes back to the initial status", () => {
+    expect(getAssigneeAfterTransition(defaultWorkflow, 7, "pending")).toEqual({ assignedTo: null });
+  });
+
+  it("leaves the assignee alone for other statuses", () => {
+    expect(getAssigneeAfterTransition(defaultWorkflow, 7, "completed")).toEqual({ assignedTo: 7 });
+    expect(getAssigneeAfterTransition(defaultWorkflow, 7, "in_progress")).toEqual({ assignedTo: 7 });
+  });
+});
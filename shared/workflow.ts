@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+// Workflow definition: the ticket statuses and which moves between them are legal
+export const workflowStateSchema = z.object({
+  name: z.string().min(1),
+  label: z.string().min(1),
+  // Open states count as active work, done states as closed
+  category: z.enum(["open", "done"]),
+  // Entering this state needs a reason, e.g. what the ticket is blocked on
+  requiresReason: z.boolean().optional(),
+});
+
+export const workflowTransitionSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+export const workflowDefinitionSchema = z
+  .object({
+    // Statuses the server moves tickets into when they are created, assigned and completed
+    initialState: z.string().min(1),
+    assignedState: z.string().min(1),
+    completedState: z.string().min(1),
+    states: z.array(workflowStateSchema).min(1),
+    transitions: z.array(workflowTransitionSchema),
+  })
+  .superRefine((workflow, ctx) => {
+    const names = new Set(workflow.states.map(state => state.name));
+
+    for (const key of ["initialState", "assignedState", "completedState"] as const) {
+      if (!names.has(workflow[key])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Unknown state "${workflow[key]}"` });
+      }
+    }
+
+    for (const { from, to } of workflow.transitions) {
+      if (!names.has(from) || !names.has(to)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Transition ${from} -> ${to} uses an unknown state` });
+      }
+    }
+  });
+
+export type WorkflowState = z.infer<typeof workflowStateSchema>;
+export type WorkflowTransition = z.infer<typeof workflowTransitionSchema>;
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+export type StatusCategory = WorkflowState["category"];
+
+// Default workflow used unless the server is configured with another one
+export const defaultWorkflow: WorkflowDefinition = {
+  initialState: "pending",
+  assignedState: "assigned",
+  completedState: "completed",
+  states: [
+    { name: "pending", label: "Pending", category: "open" },
+    { name: "assigned", label: "Assigned", category: "open" },
+    { name: "in_progress", label: "In Progress", category: "open" },
+    { name: "blocked", label: "Blocked", category: "open", requiresReason: true },
+    { name: "on_hold", label: "On Hold", category: "open" },
+    { name: "completed", label: "Completed", category: "done" },
+  ],
+  transitions: [
+    { from: "pending", to: "assigned" },
+    { from: "assigned", to: "assigned" },
+    { from: "assigned", to: "in_progress" },
+    { from: "assigned", to: "blocked" },
+    { from: "assigned", to: "on_hold" },
+    { from: "assigned", to: "completed" },
+    { from: "in_progress", to: "assigned" },
+    { from: "in_progress", to: "blocked" },
+    { from: "in_progress", to: "on_hold" },
+    { from: "in_progress", to: "completed" },
+    { from: "blocked", to: "assigned" },
+    { from: "blocked", to: "in_progress" },
+    { from: "blocked", to: "on_hold" },
+    { from: "on_hold", to: "assigned" },
+    { from: "on_hold", to: "in_progress" },
+    { from: "on_hold", to: "blocked" },
+    { from: "completed", to: "pending" },
+    { from: "completed", to: "assigned" },
+  ],
+};
+
+export function getWorkflowState(workflow: WorkflowDefinition, name: string): WorkflowState | undefined {
+  return workflow.states.find(state => state.name === name);
+}
+
+// Check whether a ticket may move from one status to another
+export function canTransition(workflow: WorkflowDefinition, from: string, to: string): boolean {
+  return workflow.transitions.some(transition => transition.from === from && transition.to === to);
+}
+
+// Names of all statuses in a category, in workflow order
+export function getStatusesInCategory(workflow: WorkflowDefinition, category: StatusCategory): string[] {
+  return workflow.states.filter(state => state.category === category).map(state => state.name);
+}
+
+// Assignee a ticket has after moving to a status. The assigned status can't be entered without
+// one, and going back to the initial status gives the ticket up so it is queued for assignment again.
+export function getAssigneeAfterTransition(
+  workflow: WorkflowDefinition,
+  assignedTo: number | null,
+  to: string,
+): { assignedTo: number | null } | { error: string } {
+  if (to === workflow.initialState) return { assignedTo: null };
+  if (to === workflow.assignedState && assignedTo === null) {
+    return { error: "Assign the ticket to a team member instead of moving it to the assigned status" };
+  }
+  return { assignedTo };
+}
+
+// Unknown statuses are treated as open so they never silently drop out of workloads
+export function isOpenStatus(workflow: WorkflowDefinition, status: string): boolean {
+  return getWorkflowState(workflow, status)?.category !== "done";
+}